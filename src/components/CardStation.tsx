@@ -1,41 +1,34 @@
 import React from "react";
 import { ImageCapture } from "./ImageCapture";
 import { ImageMetadataDisplay } from "./ImageMetadataDisplay";
+import { OcrSuggestions } from "./OcrSuggestions";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { StationData, PeriodKey } from "@/lib/localStorage";
-import { AlertCircle, PencilLine, Building2, Fuel } from "lucide-react";
+import { StationData, PeriodKey, LastSentPrices, OcrReading, isOwnStationId, confirmCarriedPrice } from "@/lib/localStorage";
+import type { OcrResult } from "@/lib/ocr";
+import { FuelDefinition, FuelId } from "@/config/fuels";
+import { PaymentModeDefinition, PaymentModeId } from "@/config/paymentModes";
+import { AlertCircle, PencilLine, Building2, Fuel, CopyCheck } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { sanitizePrice, validateStationPrices } from "@/lib/priceValidation";
+import { comparePrices, formatPrice, formatPriceChange, PriceChange } from "@/lib/priceChanges";
 
-export type PriceKey = "etanol" | "gasolinaComum" | "gasolinaAditivada" | "dieselS10";
-
-const sanitizePrice = (raw: string) => {
-  // keep only digits, max 3; format naturally without comma lock
-  if (raw === "Sem dados") return "Sem dados";
-  const digits = raw.replace(/\D/g, "").slice(0, 3);
-  if (digits.length === 0) return "";
-  if (digits.length === 1) return digits[0]; // Just "X"
-  if (digits.length === 2) return `${digits[0]},${digits[1]}`; // "X,Y"
-  return `${digits[0]},${digits[1]}${digits[2]}`; // "X,YZ"
-};
-
-const prefixForId = (id: string): string => {
-  if (id === "reference") return "Posto Natureza: ";
-  const m = id.match(/competitor_(\d+)/);
-  const n = m ? Number(m[1]) : undefined;
-  return `Posto Concorrente ${n ?? 1}: `;
-};
+export type PriceKey = FuelId;
 
 interface PriceInputProps {
   label: string;
   value: string;
   onChange: (v: string) => void;
-  error?: boolean;
+  error?: string;   // bloqueia o envio
+  warning?: string; // pede confirmação antes do envio
+  change?: PriceChange; // comparação com o último envio
+  carriedFrom?: string; // rótulo do período de onde o valor foi copiado, enquanto não confirmado
+  onConfirmCarried?: () => void;
 }
 
-const PriceInput: React.FC<PriceInputProps> = ({ label, value, onChange, error }) => {
+const PriceInput: React.FC<PriceInputProps> = ({ label, value, onChange, error, warning, change, carriedFrom, onConfirmCarried }) => {
   const isNoData = value === "Sem dados";
   const displayValue = isNoData ? "Sem dados" : value;
   return (
@@ -51,9 +44,32 @@ const PriceInput: React.FC<PriceInputProps> = ({ label, value, onChange, error }
           value={displayValue}
           onChange={(e) => onChange(sanitizePrice(e.target.value))}
           disabled={isNoData}
+          aria-invalid={Boolean(error)}
+          className={cn(
+            error && "border-destructive",
+            !error && (warning || change?.significant || carriedFrom) && "border-warning",
+            carriedFrom && "border-dashed"
+          )}
         />
+        {carriedFrom && (
+          <p className="flex flex-wrap items-center gap-1 text-xs mt-1 text-warning">
+            <CopyCheck className="h-3.5 w-3.5" aria-hidden="true" />
+            Copiado do período {carriedFrom}, não confirmado ·
+            <button type="button" className="font-medium underline underline-offset-2" onClick={onConfirmCarried}>
+              Confirmar
+            </button>
+          </p>
+        )}
+        {change && (
+          <p className={cn("text-xs mt-1", change.significant ? "text-warning font-medium" : "text-muted-foreground")}>
+            Anterior: {formatPrice(change.previous)} · {formatPriceChange(change)}
+          </p>
+        )}
         {error && (
-          <p className="text-sm text-destructive mt-1">Preencha aqui!</p>
+          <p className="text-sm text-destructive mt-1">{error}</p>
+        )}
+        {!error && warning && (
+          <p className="text-sm text-warning mt-1">{warning}</p>
         )}
       </div>
       <div className="flex items-center gap-2 pt-7">
@@ -74,27 +90,69 @@ const PriceInput: React.FC<PriceInputProps> = ({ label, value, onChange, error }
 interface CardStationProps {
   id: string;
   name: string;
+  namePrefix: string; // prefixo fixo do nome, ex.: "Posto Concorrente 2: "
   value: StationData;
   onChange: (next: StationData) => void;
   onNameChange: (name: string) => void;
   period: string; // Adiciona period para ImageCapture
+  fuels: FuelDefinition[]; // combustíveis habilitados, já ordenados
+  paymentModes: PaymentModeDefinition[]; // formas de pagamento habilitadas, já ordenadas
+  previous?: LastSentPrices; // últimos valores enviados deste posto
+  changeThreshold: number; // % de variação destacada
+  carriedFromLabel?: string; // rótulo do período de onde vieram os valores copiados
   errors?: {
     photo?: boolean;
-    prices?: {
-      vista?: Partial<Record<PriceKey, boolean>>;
-      prazo?: Partial<Record<PriceKey, boolean>>;
-    };
+    prices?: Partial<Record<PaymentModeId, Partial<Record<PriceKey, string>>>>; // mensagem por campo
   };
 }
 
-export const CardStation: React.FC<CardStationProps> = ({ id, name, value, onChange, onNameChange, period, errors }) => {
+export const CardStation: React.FC<CardStationProps> = ({ id, name, namePrefix, value, onChange, onNameChange, period, fuels, paymentModes, previous, changeThreshold, carriedFromLabel, errors }) => {
   const [editing, setEditing] = React.useState(false);
+  // Validação de sanidade em tempo real (o formato incompleto só é cobrado no envio)
+  const liveIssues = React.useMemo(
+    () => validateStationPrices(value, fuels, paymentModes).filter((i) => i.code !== "incomplete"),
+    [value, fuels, paymentModes]
+  );
+  const issueFor = (mode: PaymentModeId, fuel: FuelId, severity: "error" | "warning") =>
+    liveIssues.find((i) => i.mode === mode && i.fuel === fuel && i.severity === severity)?.message;
+  const changes = React.useMemo(
+    () => comparePrices(value, previous, fuels, paymentModes, changeThreshold),
+    [value, previous, fuels, paymentModes, changeThreshold]
+  );
+  const [ocr, setOcr] = React.useState<{ status: "running" | "done" | "error"; result?: OcrResult } | null>(null);
+  const ocrRun = React.useRef(0);
+
+  // OCR local da placa (carregado sob demanda para não pesar no carregamento inicial)
+  const readSign = async (blob: Blob) => {
+    const run = ++ocrRun.current;
+    setOcr({ status: "running" });
+    try {
+      const { recognizePrices } = await import("@/lib/ocr");
+      const result = await recognizePrices(blob, fuels, paymentModes);
+      if (run === ocrRun.current) setOcr({ status: "done", result });
+    } catch (e) {
+      console.error("[CardStation] OCR failed", e);
+      if (run === ocrRun.current) setOcr({ status: "error" });
+    }
+  };
+
+  const applyOcr = (reading: OcrReading) => {
+    let next: StationData = { ...value, prices: structuredClone(value.prices) };
+    reading.fields.forEach((f) => {
+      if (!f.accepted) return;
+      next.prices[f.mode] = { ...next.prices[f.mode], [f.fuel]: f.accepted };
+      next = confirmCarriedPrice(next, f.mode, f.fuel);
+    });
+    onChange({ ...next, metadata: { ...value.metadata, ocr: reading } });
+    setOcr(null);
+  };
+
   const [editingName, setEditingName] = React.useState(name);
   React.useEffect(() => {
-    const pref = prefixForId(id);
+    const pref = namePrefix;
     const candidate = name.startsWith(pref) ? name : `${pref}${name.replace(/^.*?:\s*/, "")}`;
     setEditingName(candidate);
-  }, [name, id, editing]);
+  }, [name, namePrefix, editing]);
 
   return (
     <Card className="shadow-sm animate-in fade-in-50">
@@ -107,7 +165,7 @@ export const CardStation: React.FC<CardStationProps> = ({ id, name, value, onCha
                 value={editingName}
                 onChange={(e) => {
                   const raw = e.target.value;
-                  const pref = prefixForId(id);
+                  const pref = namePrefix;
                   // Não permite deletar o prefixo - sempre mantenha ele
                   if (!raw.startsWith(pref)) {
                     return; // Ignora a mudança se tentar deletar o prefixo
@@ -118,14 +176,14 @@ export const CardStation: React.FC<CardStationProps> = ({ id, name, value, onCha
                 }}
                 onFocus={(e) => {
                   const input = e.target as HTMLInputElement;
-                  const prefLen = prefixForId(id).length;
+                  const prefLen = namePrefix.length;
                   setTimeout(() => {
                     try { input.setSelectionRange(prefLen, input.value.length); } catch {}
                   }, 0);
                 }}
                 onKeyDown={(e) => {
                   const input = e.target as HTMLInputElement;
-                  const prefLen = prefixForId(id).length;
+                  const prefLen = namePrefix.length;
                   // Impede deletar quando cursor está no prefixo
                   if (input.selectionStart !== null && input.selectionStart < prefLen && 
                       (e.key === 'Backspace' || e.key === 'Delete' || e.key === 'ArrowLeft')) {
@@ -144,7 +202,7 @@ export const CardStation: React.FC<CardStationProps> = ({ id, name, value, onCha
           ) : (
             <div className="flex items-center gap-3">
               <h3 className="text-xl font-semibold text-primary flex items-center gap-2">
-                {id === "reference" ? (
+                {isOwnStationId(id) ? (
                   <Building2 className="h-5 w-5 text-primary" aria-hidden="true" />
                 ) : (
                   <Fuel className="h-5 w-5 text-primary" aria-hidden="true" />
@@ -166,8 +224,13 @@ export const CardStation: React.FC<CardStationProps> = ({ id, name, value, onCha
                 label={`Tirar foto da placa do ${name}`}
                 valueBase64={value.photoBase64}
                 onBase64={(b64) => onChange({ ...value, photoBase64: b64 })}
-                onClear={() => onChange({ ...value, photoBase64: "", metadata: undefined })}
+                onClear={() => {
+                  ocrRun.current++;
+                  setOcr(null);
+                  onChange({ ...value, photoBase64: "", metadata: undefined });
+                }}
                 onMetadata={(metadata) => onChange({ ...value, metadata })}
+                onCompressed={(blob) => void readSign(blob)}
                 allowGallery={true}
               />
               {value.metadata && (
@@ -177,6 +240,16 @@ export const CardStation: React.FC<CardStationProps> = ({ id, name, value, onCha
                 />
               )}
             </div>
+            {ocr && !value.noChange && (
+              <OcrSuggestions
+                status={ocr.status}
+                result={ocr.result}
+                fuels={fuels}
+                paymentModes={paymentModes}
+                onApply={applyOcr}
+                onDismiss={() => setOcr(null)}
+              />
+            )}
             {errors?.photo && (
               <p className="text-sm text-destructive mt-2">Envio de Foto aqui!</p>
             )}
@@ -187,29 +260,37 @@ export const CardStation: React.FC<CardStationProps> = ({ id, name, value, onCha
           <Label htmlFor={`${id}-nochange`}>Não houve alteração nos preços hoje</Label>
         </div>
 
-        {!value.noChange && (
-          <section className="space-y-3">
-            <h4 className="text-base font-semibold text-center">Preços à Vista</h4>
+        {!value.noChange && paymentModes.map((mode) => (
+          <section key={mode.id} className="space-y-3">
+            <h4 className="text-base font-semibold text-center">
+              {mode.label}
+              {!mode.required && <span className="ml-1 text-xs font-normal text-muted-foreground">(opcional)</span>}
+            </h4>
             <div className="grid md:grid-cols-2 gap-5">
-<PriceInput label="Etanol" value={value.prices.vista.etanol} onChange={(v) => onChange({ ...value, prices: { ...value.prices, vista: { ...value.prices.vista, etanol: v } } })} error={Boolean(errors?.prices?.vista?.etanol)} />
-<PriceInput label="Gasolina Comum" value={value.prices.vista.gasolinaComum} onChange={(v) => onChange({ ...value, prices: { ...value.prices, vista: { ...value.prices.vista, gasolinaComum: v } } })} error={Boolean(errors?.prices?.vista?.gasolinaComum)} />
-<PriceInput label="Gasolina Aditivada" value={value.prices.vista.gasolinaAditivada} onChange={(v) => onChange({ ...value, prices: { ...value.prices, vista: { ...value.prices.vista, gasolinaAditivada: v } } })} error={Boolean(errors?.prices?.vista?.gasolinaAditivada)} />
-<PriceInput label="Diesel S-10" value={value.prices.vista.dieselS10} onChange={(v) => onChange({ ...value, prices: { ...value.prices, vista: { ...value.prices.vista, dieselS10: v } } })} error={Boolean(errors?.prices?.vista?.dieselS10)} />
-            </div>
-          </section>
-        )}
-
-        {!value.noChange && (
-          <section className="space-y-3">
-            <h4 className="text-base font-semibold text-center">Preços a Prazo</h4>
-            <div className="grid md:grid-cols-2 gap-5">
-<PriceInput label="Etanol" value={value.prices.prazo.etanol} onChange={(v) => onChange({ ...value, prices: { ...value.prices, prazo: { ...value.prices.prazo, etanol: v } } })} error={Boolean(errors?.prices?.prazo?.etanol)} />
-<PriceInput label="Gasolina Comum" value={value.prices.prazo.gasolinaComum} onChange={(v) => onChange({ ...value, prices: { ...value.prices, prazo: { ...value.prices.prazo, gasolinaComum: v } } })} error={Boolean(errors?.prices?.prazo?.gasolinaComum)} />
-<PriceInput label="Gasolina Aditivada" value={value.prices.prazo.gasolinaAditivada} onChange={(v) => onChange({ ...value, prices: { ...value.prices, prazo: { ...value.prices.prazo, gasolinaAditivada: v } } })} error={Boolean(errors?.prices?.prazo?.gasolinaAditivada)} />
-<PriceInput label="Diesel S-10" value={value.prices.prazo.dieselS10} onChange={(v) => onChange({ ...value, prices: { ...value.prices, prazo: { ...value.prices.prazo, dieselS10: v } } })} error={Boolean(errors?.prices?.prazo?.dieselS10)} />
+              {fuels.map((fuel) => (
+                <PriceInput
+                  key={fuel.id}
+                  label={fuel.label}
+                  value={value.prices[mode.id]?.[fuel.id] ?? ""}
+                  onChange={(v) =>
+                    onChange(
+                      confirmCarriedPrice(
+                        { ...value, prices: { ...value.prices, [mode.id]: { ...value.prices[mode.id], [fuel.id]: v } } },
+                        mode.id,
+                        fuel.id
+                      )
+                    )
+                  }
+                  error={errors?.prices?.[mode.id]?.[fuel.id] || issueFor(mode.id, fuel.id, "error")}
+                  warning={issueFor(mode.id, fuel.id, "warning")}
+                  change={changes.find((c) => c.mode === mode.id && c.fuel === fuel.id)}
+                  carriedFrom={value.carriedOver?.prices[mode.id]?.[fuel.id] ? carriedFromLabel : undefined}
+                  onConfirmCarried={() => onChange(confirmCarriedPrice(value, mode.id, fuel.id))}
+                />
+              ))}
             </div>
           </section>
-        )}
+        ))}
       </CardContent>
     </Card>
   );
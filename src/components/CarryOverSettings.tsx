@@ -0,0 +1,71 @@
+import React from "react";
+import { ArrowRight } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CarryOverMode, CarryOverPolicy, PeriodDefinition } from "@/config/periods";
+import { PeriodKey } from "@/lib/localStorage";
+
+interface CarryOverSettingsProps {
+  periods: PeriodDefinition[]; // só os períodos habilitados, na ordem
+  value: Record<PeriodKey, CarryOverPolicy>;
+  onChange: (next: Record<PeriodKey, CarryOverPolicy>) => void;
+}
+
+const MODE_LABELS: Record<CarryOverMode, string> = {
+  prices: "Copiar os preços",
+  names: "Só os nomes (preços em branco)",
+  nothing: "Não copiar nada",
+};
+
+// O que cada envio passa ao período seguinte: uma linha por transição entre períodos habilitados
+export const CarryOverSettings: React.FC<CarryOverSettingsProps> = ({ periods, value, onChange }) => {
+  const update = (period: PeriodKey, patch: Partial<CarryOverPolicy>) =>
+    onChange({ ...value, [period]: { ...value[period], ...patch } });
+
+  const transitions = periods.slice(0, -1).map((from, i) => ({ from, to: periods[i + 1] }));
+  if (transitions.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <Label className="block">Após o Envio</Label>
+      <p className="text-xs text-muted-foreground">
+        Preços copiados aparecem destacados no período seguinte e precisam ser confirmados antes do novo envio.
+      </p>
+      {transitions.map(({ from, to }) => {
+        const policy = value[from.id];
+        if (!policy) return null;
+        return (
+          <div key={from.id} className="space-y-2 rounded-md border px-3 py-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="flex items-center gap-1 font-medium">
+                {from.label} <ArrowRight className="h-3.5 w-3.5" aria-hidden="true" /> {to.label}
+              </span>
+              <Select value={policy.copy} onValueChange={(v) => update(from.id, { copy: v as CarryOverMode })}>
+                <SelectTrigger className="ml-auto h-8 w-64" aria-label={`${from.label} para ${to.label}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(MODE_LABELS) as CarryOverMode[]).map((mode) => (
+                    <SelectItem key={mode} value={mode}>{MODE_LABELS[mode]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`carry-nochange-${from.id}`}
+                checked={policy.keepNoChange}
+                disabled={policy.copy === "nothing"}
+                onCheckedChange={(c) => update(from.id, { keepNoChange: Boolean(c) })}
+              />
+              <Label htmlFor={`carry-nochange-${from.id}`} className="font-normal">
+                Manter "Não houve alteração nos preços"
+              </Label>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
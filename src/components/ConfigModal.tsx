@@ -3,23 +3,169 @@ import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Settings } from "lucide-react";
-import { setConcorrentesCount } from "@/lib/localStorage";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { ArrowDown, ArrowUp, Plus, Settings, Trash2 } from "lucide-react";
+import { LocationRow, StationLocationsEditor } from "./StationLocationsEditor";
+import { DEFAULT_GEOFENCE_RADIUS, StationLocation } from "@/config/geofence";
+import { parseCoords } from "@/lib/imageMetadata";
+import { PhotoValidationSettings } from "./PhotoValidationSettings";
+import { SubmissionWindowsSettings } from "./SubmissionWindowsSettings";
+import { CarryOverSettings } from "./CarryOverSettings";
+import { WebhookSettings } from "./WebhookSettings";
+import { isValidWebhookUrl } from "@/lib/webhook";
+import { isValidWindow } from "@/lib/submissionWindow";
+import {
+  MAX_OWN_STATIONS,
+  newCompetitorId,
+  ownStationId,
+  readAppState,
+  setCaptureDeviceLocation,
+  setCarryOver,
+  setCompetitors,
+  setFuelsEnabled,
+  setOwnStationsCount,
+  setPaymentModesEnabled,
+  setPeriodsEnabled,
+  setPhotoValidation,
+  setPriceChangeThreshold,
+  setPrimaryWebhookOptions,
+  setSecondaryWebhooks,
+  setStationLocations,
+  setSubmissionWindows,
+  updateWebhookUrl,
+} from "@/lib/localStorage";
 
 interface ConfigModalProps {
-  count: number;
   onChanged: () => void;
 }
 
-const options = Array.from({ length: 10 }, (_, i) => i + 1);
+type CompetitorRow = { id: string; name: string };
 
-export const ConfigModal: React.FC<ConfigModalProps> = ({ count, onChanged }) => {
+const ownOptions = Array.from({ length: MAX_OWN_STATIONS }, (_, i) => i + 1);
+
+// Indicative dashed arrow between label and select (desktop only)
+const DashedArrow = () => (
+  <div className="relative hidden md:block flex-1 pointer-events-none">
+    <svg
+      className="w-full h-5 text-muted-foreground/50"
+      viewBox="0 0 100 20"
+      preserveAspectRatio="none"
+      aria-hidden="true"
+    >
+      <line x1="0" y1="10" x2="92" y2="10" stroke="currentColor" strokeWidth="2" strokeDasharray="6 6" />
+      <polyline points="92,4 100,10 92,16" fill="none" stroke="currentColor" strokeWidth="2" />
+    </svg>
+  </div>
+);
+
+const loadLocations = (): Record<string, LocationRow> =>
+  Object.fromEntries(
+    Object.entries(readAppState().config.stationLocations).map(([id, l]) => [
+      id,
+      { coords: `${l.latitude.toFixed(6)}, ${l.longitude.toFixed(6)}`, radius: String(l.radius) },
+    ])
+  );
+
+// Lista editável de concorrentes (sem o prefixo "Posto Concorrente N: ", que depende da ordem)
+const loadCompetitors = (): CompetitorRow[] => {
+  const state = readAppState();
+  return state.config.competitors.map((id) => ({
+    id,
+    name: (state.meta.names[id] || "").replace(/^Posto Concorrente \d+: /, ""),
+  }));
+};
+
+export const ConfigModal: React.FC<ConfigModalProps> = ({ onChanged }) => {
   const [open, setOpen] = React.useState(false);
-  const [value, setValue] = React.useState(String(count));
-  
+  const [competitors, setCompetitorRows] = React.useState<CompetitorRow[]>(loadCompetitors);
+  const [ownValue, setOwnValue] = React.useState(() => String(readAppState().config.ownStationsCount));
+  const [fuels, setFuels] = React.useState(() => readAppState().config.fuels);
+  const [paymentModes, setPaymentModes] = React.useState(() => readAppState().config.paymentModes);
+  const [periods, setPeriods] = React.useState(() => readAppState().config.periods);
+  const [threshold, setThreshold] = React.useState(() => String(readAppState().config.priceChangeThreshold));
+  const [locations, setLocations] = React.useState<Record<string, LocationRow>>(loadLocations);
+  const [ownNames, setOwnNames] = React.useState(() => readAppState().meta.names);
+  const [captureLocation, setCaptureLocation] = React.useState(() => readAppState().config.captureDeviceLocation);
+  const [photoValidation, setPhotoValidationDraft] = React.useState(() => readAppState().config.photoValidation);
+  const [windows, setWindows] = React.useState(() => readAppState().config.submissionWindows);
+  const [carryOver, setCarryOverDraft] = React.useState(() => readAppState().config.carryOver);
+  const [webhookUrl, setWebhookUrl] = React.useState(() => readAppState().config.webhookUrl ?? "");
+  const [primaryWebhook, setPrimaryWebhookDraft] = React.useState(() => readAppState().config.primaryWebhook);
+  const [secondaryWebhooks, setSecondaryWebhooksDraft] = React.useState(() => readAppState().config.secondaryWebhooks);
+
+  // Recarrega a configuração salva sempre que o modal abre
+  React.useEffect(() => {
+    if (!open) return;
+    const state = readAppState();
+    setFuels(state.config.fuels);
+    setPaymentModes(state.config.paymentModes);
+    setPeriods(state.config.periods);
+    setCompetitorRows(loadCompetitors());
+    setOwnValue(String(state.config.ownStationsCount));
+    setThreshold(String(state.config.priceChangeThreshold));
+    setLocations(loadLocations());
+    setOwnNames(state.meta.names);
+    setCaptureLocation(state.config.captureDeviceLocation);
+    setPhotoValidationDraft(state.config.photoValidation);
+    setWindows(state.config.submissionWindows);
+    setCarryOverDraft(state.config.carryOver);
+    setWebhookUrl(state.config.webhookUrl ?? "");
+    setPrimaryWebhookDraft(state.config.primaryWebhook);
+    setSecondaryWebhooksDraft(state.config.secondaryWebhooks);
+  }, [open]);
+
+  const moveCompetitor = (index: number, delta: number) => {
+    setCompetitorRows((prev) => {
+      const next = [...prev];
+      const [row] = next.splice(index, 1);
+      next.splice(index + delta, 0, row);
+      return next;
+    });
+  };
+
+  const thresholdValue = Number(threshold.replace(",", "."));
+
+  // Postos exibidos no cadastro de localização, conforme a seleção atual do modal
+  const locationStations = [
+    ...Array.from({ length: Number(ownValue) }, (_, i) => {
+      const id = ownStationId(i + 1);
+      return { id, label: (ownNames[id] || `Posto Natureza ${i + 1}`).replace(/:\s*$/, "") };
+    }),
+    ...competitors.map((c, i) => ({ id: c.id, label: `Concorrente ${i + 1}${c.name ? `: ${c.name}` : ""}` })),
+  ];
+  const locationsInvalid = locationStations.some(({ id }) => {
+    const row = locations[id];
+    return row && row.coords.trim() !== "" && !parseCoords(row.coords);
+  });
+
+  const webhooksInvalid = [webhookUrl, ...secondaryWebhooks.map((w) => w.url)].some(
+    (url) => url.trim() !== "" && !isValidWebhookUrl(url.trim())
+  );
+
+  const windowsInvalid = periods.some((p) => p.enabled && windows[p.id] && !isValidWindow(windows[p.id]));
 
   const onConfirm = () => {
-    setConcorrentesCount(Number(value));
+    setFuelsEnabled(Object.fromEntries(fuels.map((f) => [f.id, f.enabled])));
+    setPaymentModesEnabled(Object.fromEntries(paymentModes.map((m) => [m.id, m.enabled])));
+    setPeriodsEnabled(Object.fromEntries(periods.map((p) => [p.id, p.enabled])));
+    setOwnStationsCount(Number(ownValue));
+    setCompetitors(competitors.map((c) => c.id));
+    setPriceChangeThreshold(thresholdValue);
+    const registered: Record<string, StationLocation> = {};
+    locationStations.forEach(({ id }) => {
+      const row = locations[id];
+      const coords = row && parseCoords(row.coords);
+      if (coords) registered[id] = { ...coords, radius: Number(row.radius) || DEFAULT_GEOFENCE_RADIUS };
+    });
+    setStationLocations(registered);
+    setCaptureDeviceLocation(captureLocation);
+    setPhotoValidation(photoValidation);
+    setSubmissionWindows(windows);
+    setCarryOver(carryOver);
+    updateWebhookUrl(webhookUrl.trim() || undefined);
+    setPrimaryWebhookOptions(primaryWebhook);
+    setSecondaryWebhooks(secondaryWebhooks);
     onChanged();
     setOpen(false);
   };
@@ -31,52 +177,164 @@ export const ConfigModal: React.FC<ConfigModalProps> = ({ count, onChanged }) =>
           <Settings className="h-7 w-7" />
         </Button>
       </DialogTrigger>
-      <DialogContent>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Configurações</DialogTitle>
         </DialogHeader>
         <div className="grid gap-4 py-2">
           <div className="flex items-center gap-4">
-            <Label className="shrink-0">Concorrentes</Label>
-            {/* Indicative dashed arrow between label and select (desktop only) */}
-            <div className="relative hidden md:block flex-1 pointer-events-none">
-              <svg
-                className="w-full h-5 text-muted-foreground/50"
-                viewBox="0 0 100 20"
-                preserveAspectRatio="none"
-                aria-hidden="true"
-              >
-                <line x1="0" y1="10" x2="92" y2="10" stroke="currentColor" strokeWidth="2" strokeDasharray="6 6" />
-                <polyline points="92,4 100,10 92,16" fill="none" stroke="currentColor" strokeWidth="2" />
-              </svg>
-            </div>
+            <Label className="shrink-0">Postos Natureza</Label>
+            <DashedArrow />
 
-            <Select value={value} onValueChange={setValue}>
+            <Select value={ownValue} onValueChange={setOwnValue}>
               <SelectTrigger className="w-[220px]">
                 <SelectValue placeholder="Selecione" />
               </SelectTrigger>
               <SelectContent>
-                {options.map((n) => (
+                {ownOptions.map((n) => (
                   <SelectItem key={n} value={String(n)}>
-                    {n} Concorrente{n > 1 ? "s" : ""}
+                    {n} Posto{n > 1 ? "s" : ""} Natureza
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
           </div>
+          <div className="space-y-3">
+            <Label className="block">Concorrentes</Label>
+            <ol className="space-y-2">
+              {competitors.map((c, i) => (
+                <li key={c.id} className="flex items-center gap-2 rounded-md border px-3 py-2">
+                  <span className="flex-1 text-sm">
+                    <span className="font-medium">Concorrente {i + 1}</span>
+                    <span className="text-muted-foreground">{c.name ? `: ${c.name}` : " (novo)"}</span>
+                  </span>
+                  <Button type="button" variant="ghost" size="icon" aria-label="Mover para cima"
+                    disabled={i === 0} onClick={() => moveCompetitor(i, -1)}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="icon" aria-label="Mover para baixo"
+                    disabled={i === competitors.length - 1} onClick={() => moveCompetitor(i, 1)}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="icon" aria-label="Remover concorrente"
+                    disabled={competitors.length === 1}
+                    onClick={() => setCompetitorRows((prev) => prev.filter((row) => row.id !== c.id))}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </li>
+              ))}
+            </ol>
+            <Button type="button" variant="outline" className="w-full"
+              onClick={() => setCompetitorRows((prev) => [...prev, { id: newCompetitorId(), name: "" }])}>
+              <Plus className="h-4 w-4" />
+              Adicionar concorrente
+            </Button>
+          </div>
+          <div className="space-y-3">
+            <Label className="block">Combustíveis</Label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {fuels.map((fuel) => (
+                <div key={fuel.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`fuel-${fuel.id}`}
+                    checked={fuel.enabled}
+                    onCheckedChange={(c) =>
+                      setFuels((prev) => prev.map((f) => (f.id === fuel.id ? { ...f, enabled: Boolean(c) } : f)))
+                    }
+                  />
+                  <Label htmlFor={`fuel-${fuel.id}`} className="font-normal">{fuel.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-3">
+            <Label className="block">Formas de Pagamento</Label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {paymentModes.map((mode) => (
+                <div key={mode.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`payment-${mode.id}`}
+                    checked={mode.enabled}
+                    onCheckedChange={(c) =>
+                      setPaymentModes((prev) => prev.map((m) => (m.id === mode.id ? { ...m, enabled: Boolean(c) } : m)))
+                    }
+                  />
+                  <Label htmlFor={`payment-${mode.id}`} className="font-normal">{mode.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-3">
+            <Label className="block">Períodos</Label>
+            <p className="text-xs text-muted-foreground">
+              Cada período tem sua aba e seu envio. Desabilitar um período apaga os dados e fotos dele.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {periods.map((period) => (
+                <div key={period.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`period-${period.id}`}
+                    checked={period.enabled}
+                    onCheckedChange={(c) =>
+                      setPeriods((prev) => prev.map((p) => (p.id === period.id ? { ...p, enabled: Boolean(c) } : p)))
+                    }
+                  />
+                  <Label htmlFor={`period-${period.id}`} className="font-normal">{period.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center gap-4">
+            <Label htmlFor="price-change-threshold" className="shrink-0">Destacar variação acima de (%)</Label>
+            <DashedArrow />
+            <Input
+              id="price-change-threshold"
+              inputMode="decimal"
+              className="w-24"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value.replace(/[^\d,.]/g, ""))}
+            />
+          </div>
+          <StationLocationsEditor
+            stations={locationStations}
+            value={locations}
+            onChange={setLocations}
+            defaultRadius={DEFAULT_GEOFENCE_RADIUS}
+          />
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="capture-device-location"
+              checked={captureLocation}
+              onCheckedChange={(c) => setCaptureLocation(Boolean(c))}
+            />
+            <Label htmlFor="capture-device-location" className="font-normal">
+              Registrar a localização do aparelho ao tirar cada foto
+            </Label>
+          </div>
+          <SubmissionWindowsSettings periods={periods.filter((p) => p.enabled)} value={windows} onChange={setWindows} />
+          <CarryOverSettings periods={periods.filter((p) => p.enabled)} value={carryOver} onChange={setCarryOverDraft} />
+          <PhotoValidationSettings value={photoValidation} onChange={setPhotoValidationDraft} />
+          <WebhookSettings
+            url={webhookUrl}
+            onUrlChange={setWebhookUrl}
+            primaryOptions={primaryWebhook}
+            onPrimaryOptionsChange={setPrimaryWebhookDraft}
+            secondaries={secondaryWebhooks}
+            onSecondariesChange={setSecondaryWebhooksDraft}
+          />
           <div className="space-y-3">
             <Label className="block">Instruções de Uso</Label>
             <div className="rounded-md border bg-muted/40 p-4">
               <div className="space-y-3 text-sm text-muted-foreground">
-                <p><span className="font-medium">1.</span> Ajuste essa configuração acima de acordo com a quantidade de Concorrentes que irá enviar dados.</p>
+                <p><span className="font-medium">1.</span> Ajuste essa configuração acima de acordo com a quantidade de Postos Natureza e de Concorrentes que irá enviar dados. Remover um concorrente apaga os dados dele; os demais mantêm os seus.</p>
                 <p><span className="font-medium">2.</span> Edite corretamente o nome do Seu Posto e dos seus Concorrentes.</p>
-                <p><span className="font-medium">3.</span> Preencha todos os campos e envie os dados do período da Manhã e da Tarde.</p>
+                <p><span className="font-medium">3.</span> Preencha todos os campos e envie os dados de cada período habilitado.</p>
               </div>
             </div>
           </div>
         </div>
         <DialogFooter>
-          <Button onClick={onConfirm}>Confirmar</Button>
+          <Button onClick={onConfirm} disabled={!fuels.some((f) => f.enabled) || !paymentModes.some((m) => m.enabled) || !periods.some((p) => p.enabled) || !(thresholdValue >= 0) || locationsInvalid || webhooksInvalid || windowsInvalid}>Confirmar</Button>
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,23 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { HistoryStatus } from "@/lib/history";
+
+const STATUS_LABEL: Record<HistoryStatus, string> = {
+  pending: "Pendente",
+  sent: "Enviado",
+  superseded: "Substituído",
+  rejected: "Recusado",
+};
+
+const STATUS_CLASS: Record<HistoryStatus, string> = {
+  pending: "bg-warning/10 text-warning border-warning/20",
+  sent: "bg-success/10 text-success border-success/20",
+  superseded: "bg-muted/10 text-muted-foreground border-border",
+  rejected: "bg-destructive/10 text-destructive border-destructive/20",
+};
+
+export const HistoryStatusBadge: React.FC<{ status: HistoryStatus }> = ({ status }) => (
+  <Badge variant="outline" className={STATUS_CLASS[status]}>
+    {STATUS_LABEL[status]}
+  </Badge>
+);
@@ -3,7 +3,10 @@ import { Camera, X as XIcon, Image, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { validateImageDate, extractImageMetadata } from "@/lib/imageMetadata";
+import { validateImageDate, validateImageLocation, extractImageMetadata, getDeviceLocation, worstStatus } from "@/lib/imageMetadata";
+import { computePhotoHash, findDuplicatePhoto } from "@/lib/photoHash";
+import { assessTamper, TAMPER_WARNING_SCORE } from "@/lib/tamperScore";
+import { readAppState } from "@/lib/localStorage";
 import { saveImageBlob, imageKey, compressImage, getImageBlob, removeImageBlob, getImageMetadata, blobToDataURL, dataURLToBase64 } from "@/lib/imagesDB";
 
 interface Props {
@@ -15,9 +18,10 @@ interface Props {
   onClear?: () => void;            // limpa estado do card (opcional)
   allowGallery?: boolean;          // permite selecionar da galeria além da câmera
   onMetadata?: (metadata: any) => void; // callback para metadados
+  onCompressed?: (blob: Blob) => void; // imagem final (comprimida), ex.: para o OCR da placa
 }
 
-export const ImageCapture: React.FC<Props> = ({ period, stationId, label, valueBase64, onBase64, onClear, allowGallery = false, onMetadata }) => {
+export const ImageCapture: React.FC<Props> = ({ period, stationId, label, valueBase64, onBase64, onClear, allowGallery = false, onMetadata, onCompressed }) => {
   const [preview, setPreview] = React.useState<string | undefined>(valueBase64);
   const [isProcessing, setIsProcessing] = React.useState(false);
   const [validationError, setValidationError] = React.useState<string | null>(null);
@@ -70,6 +74,10 @@ export const ImageCapture: React.FC<Props> = ({ period, stationId, label, valueB
     
     try {
       let metadata: any = {};
+
+      // Localização do aparelho no momento da captura (em paralelo com a leitura do EXIF); só para
+      // fotos da câmera: a posição atual nada diz sobre onde uma foto da galeria foi tirada
+      const deviceLocationPromise = source === 'camera' ? getDeviceLocation() : Promise.resolve(undefined);
       
       // Extrai metadados EXIF
       const exifMetadata = await extractImageMetadata(file);
@@ -83,29 +91,63 @@ export const ImageCapture: React.FC<Props> = ({ period, stationId, label, valueB
         };
       }
 
-      // Para imagens da galeria em concorrentes, validar metadados
-      if (source === 'gallery' && stationId.startsWith("competitor_")) {
-        const validation = await validateImageDate(file, stationId);
-        
-        if (!validation.isValid) {
-          setValidationError(validation.reason || 'Imagem inválida');
-          setValidationSuggestion(validation.suggestion || 'Use a câmera para tirar uma foto atual');
-          setIsProcessing(false);
-          return;
-        }
-        
-        // Adiciona status de validação aos metadados
-        metadata.validationStatus = validation.status || 'validated';
-        metadata.validationReason = validation.reason;
-      } else {
-        // Para posts de referência, sempre valida
-        metadata.validationStatus = 'validated';
+      // Valida a data conforme a política do tipo de posto e da origem da foto (Configurações)
+      const validation = await validateImageDate(file, stationId, source, period, exifMetadata);
+
+      if (!validation.isValid) {
+        setValidationError(validation.reason || 'Imagem inválida');
+        setValidationSuggestion(validation.suggestion || 'Use a câmera para tirar uma foto atual');
+        setIsProcessing(false);
+        return;
+      }
+
+      // Adiciona status de validação aos metadados
+      metadata.validationStatus = validation.status || 'validated';
+      metadata.validationReason = validation.reason;
+
+      // Indícios de edição ou reenvio (software de edição, datas inconsistentes, dimensões)
+      const tamper = await assessTamper(file, exifMetadata);
+      metadata.tamperScore = tamper.score;
+      metadata.tamperReasons = tamper.reasons;
+      if (tamper.score >= TAMPER_WARNING_SCORE) {
+        metadata.validationStatus = worstStatus(metadata.validationStatus, 'warning');
+      }
+
+      metadata.deviceLocation = await deviceLocationPromise;
+
+      // Geofence: compara o GPS da foto (ou, sem ele e só na câmera, a posição do aparelho) com as coordenadas
+      // cadastradas do posto (sinaliza, não bloqueia)
+      const location = validateImageLocation(
+        metadata.gps?.latitude !== undefined ? metadata.gps : metadata.deviceLocation,
+        stationId
+      );
+      if (location.status) {
+        metadata.validationStatus = worstStatus(metadata.validationStatus, location.status);
+        metadata.validationReason = [metadata.validationReason, location.reason].filter(Boolean).join(' • ') || undefined;
+        metadata.distanceMeters = location.distance;
+        metadata.geofenceRadius = location.radius;
       }
 
       // Compressão ultra agressiva (600px, qualidade 0.5)
       const blob = await compressImage(file, 600);
+
+      // Foto repetida: compara o hash com as fotos dos outros postos do período e com as já enviadas
+      try {
+        metadata.photoHash = await computePhotoHash(blob);
+        const state = readAppState();
+        const others = Object.entries(state.periods[period as keyof typeof state.periods]?.stations || {})
+          .filter(([id]) => id !== stationId)
+          .map(([id, st]) => ({ stationName: state.meta.names[id] || id, hash: st.metadata?.photoHash }));
+        const duplicate = findDuplicatePhoto(metadata.photoHash, stationId, others);
+        if (duplicate) {
+          metadata.duplicateReason = duplicate;
+          metadata.validationStatus = worstStatus(metadata.validationStatus, 'warning');
+        }
+      } catch (e) {
+        console.warn('Não foi possível calcular o hash da foto:', e);
+      }
       
-      // Salva no armazenamento híbrido (localStorage/sessionStorage) com metadata
+      // Salva no IndexedDB com metadata
       await saveImageBlob(key, blob, metadata);
       
       // Prepara preview e base64
@@ -115,6 +157,7 @@ export const ImageCapture: React.FC<Props> = ({ period, stationId, label, valueB
       setPreview(dataURL);
       onBase64(base64);
       onMetadata?.(metadata);
+      onCompressed?.(blob);
     } catch (e) {
       console.error('Erro ao processar imagem:', e);
       setValidationError('Erro ao processar a imagem');
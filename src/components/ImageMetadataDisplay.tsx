@@ -1,8 +1,9 @@
 import React from 'react';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle, AlertTriangle, XCircle, Camera, Clock, MapPin } from 'lucide-react';
+import { CheckCircle, AlertTriangle, XCircle, Camera, Clock, MapPin, ScanText, Smartphone, Copy, ImageOff } from 'lucide-react';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { formatDistance } from '@/lib/imageMetadata';
 
 interface ImageMetadata {
   dateTime?: string;
@@ -15,6 +16,21 @@ interface ImageMetadata {
   };
   validationStatus?: 'validated' | 'invalid' | 'warning';
   validationReason?: string;
+  deviceLocation?: {
+    latitude: number;
+    longitude: number;
+    accuracy: number;
+    timestamp: string;
+  };
+  duplicateReason?: string;
+  tamperScore?: number;
+  tamperReasons?: string[];
+  distanceMeters?: number;
+  geofenceRadius?: number;
+  ocr?: {
+    confidence: number;
+    fields: Array<{ recognized: string; accepted: string }>;
+  };
 }
 
 interface ImageMetadataDisplayProps {
@@ -93,12 +109,47 @@ export const ImageMetadataDisplay: React.FC<ImageMetadataDisplayProps> = ({
             <span>Dispositivo: {metadata.make} {metadata.model}</span>
           </div>
         )}
-        {metadata.gps?.latitude && metadata.gps?.longitude && (
+        {metadata.distanceMeters !== undefined ? (
+          <div className="flex items-center gap-2">
+            <MapPin className="size-3" />
+            <span>
+              A {formatDistance(metadata.distanceMeters)} do posto
+              {metadata.geofenceRadius !== undefined && ` (raio de ${formatDistance(metadata.geofenceRadius)})`}
+            </span>
+          </div>
+        ) : metadata.gps?.latitude && metadata.gps?.longitude && (
           <div className="flex items-center gap-2">
             <MapPin className="size-3" />
             <span>Localização GPS detectada</span>
           </div>
         )}
+        {metadata.tamperReasons && metadata.tamperReasons.length > 0 && (
+          <div className="flex items-start gap-2 text-warning">
+            <ImageOff className="size-3 mt-0.5" />
+            <span>Indícios de edição: {metadata.tamperReasons.join('; ')}</span>
+          </div>
+        )}
+        {metadata.duplicateReason && (
+          <div className="flex items-center gap-2 text-warning">
+            <Copy className="size-3" />
+            <span>{metadata.duplicateReason}</span>
+          </div>
+        )}
+        {metadata.deviceLocation && (
+          <div className="flex items-center gap-2">
+            <Smartphone className="size-3" />
+            <span>Local do aparelho registrado (precisão de {formatDistance(metadata.deviceLocation.accuracy)})</span>
+          </div>
+        )}
+        {metadata.ocr && (
+          <div className="flex items-center gap-2">
+            <ScanText className="size-3" />
+            <span>
+              Preços lidos da placa: {metadata.ocr.fields.length} ({metadata.ocr.confidence}% de confiança
+              {metadata.ocr.fields.some((f) => f.accepted !== f.recognized) ? ', com correções' : ''})
+            </span>
+          </div>
+        )}
       </div>
 
       {/* Validation Message */}
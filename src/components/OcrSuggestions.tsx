@@ -0,0 +1,100 @@
+import React from "react";
+import { ScanText, X as XIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { FuelDefinition } from "@/config/fuels";
+import { PaymentModeDefinition } from "@/config/paymentModes";
+import { OcrReading } from "@/lib/localStorage";
+import type { OcrResult } from "@/lib/ocr"; // só o tipo: o OCR é carregado sob demanda
+import { sanitizePrice } from "@/lib/priceValidation";
+import { cn } from "@/lib/utils";
+
+interface OcrSuggestionsProps {
+  status: "running" | "done" | "error";
+  result?: OcrResult;
+  fuels: FuelDefinition[];
+  paymentModes: PaymentModeDefinition[];
+  onApply: (reading: OcrReading) => void;
+  onDismiss: () => void;
+}
+
+const LOW_CONFIDENCE = 70;
+
+// Valores lidos da foto da placa: o usuário confere, corrige e aplica aos campos de preço
+export const OcrSuggestions: React.FC<OcrSuggestionsProps> = ({ status, result, fuels, paymentModes, onApply, onDismiss }) => {
+  const [values, setValues] = React.useState<string[]>([]);
+  React.useEffect(() => {
+    setValues(result?.proposals.map((p) => p.value) ?? []);
+  }, [result]);
+
+  if (status === "running") {
+    return (
+      <div className="flex items-center gap-2 rounded-md border p-3 text-sm text-muted-foreground">
+        <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+        Lendo os preços da placa...
+      </div>
+    );
+  }
+
+  if (status === "error" || !result || result.proposals.length === 0) {
+    return (
+      <div className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm text-muted-foreground">
+        <span>Não foi possível ler os preços da placa. Preencha os campos manualmente.</span>
+        <button type="button" aria-label="Fechar" className="rounded-md p-1 hover:bg-accent" onClick={onDismiss}>
+          <XIcon className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+
+  const apply = () => {
+    onApply({
+      confidence: result.confidence,
+      fields: result.proposals.map((p, i) => ({
+        mode: p.mode,
+        fuel: p.fuel,
+        recognized: p.value,
+        confidence: p.confidence,
+        accepted: values[i] ?? p.value,
+      })),
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <ScanText className="h-4 w-4 text-primary" />
+        Preços lidos da placa ({result.confidence}% de confiança)
+      </div>
+      <p className="text-xs text-muted-foreground">Confira e corrija os valores antes de aplicar.</p>
+      <div className="grid gap-2 sm:grid-cols-2">
+        {result.proposals.map((p, i) => (
+          <label key={`${p.mode}-${p.fuel}`} className="flex items-center gap-2 text-sm">
+            <span className="flex-1">
+              {fuels.find((f) => f.id === p.fuel)?.label ?? p.fuel}
+              <span className="block text-xs text-muted-foreground">
+                {paymentModes.find((m) => m.id === p.mode)?.label ?? p.mode}
+              </span>
+            </span>
+            <Input
+              inputMode="numeric"
+              className={cn("w-20", p.confidence < LOW_CONFIDENCE && "border-warning")}
+              value={values[i] ?? ""}
+              onChange={(e) => {
+                const v = sanitizePrice(e.target.value);
+                setValues((prev) => prev.map((old, k) => (k === i ? v : old)));
+              }}
+            />
+            <span className={cn("w-10 text-right text-xs", p.confidence < LOW_CONFIDENCE ? "text-warning" : "text-muted-foreground")}>
+              {p.confidence}%
+            </span>
+          </label>
+        ))}
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onDismiss}>Descartar</Button>
+        <Button type="button" size="sm" onClick={apply}>Aplicar valores</Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React from "react";
+import { Copy, FlaskConical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { PAYLOAD_FORMAT_LABELS, WEBHOOK_TRANSPORT_LABELS } from "@/config/webhook";
+import { isPhotoField } from "@/lib/formatPayloadForN8n";
+import { base64Bytes, type PayloadV2 } from "@/lib/payloadV2";
+import type { DryRunRequest } from "@/lib/webhook";
+
+export type PayloadPreview = {
+  payload: Record<string, string>;
+  structured?: PayloadV2; // mesmo envio no formato v2
+  notes: string[]; // avisos que pediriam confirmação no envio real
+  requests?: DryRunRequest[]; // presente na simulação (dry-run)
+};
+
+interface PayloadPreviewDialogProps {
+  preview: PayloadPreview | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Campos do payload como serão enviados, com as fotos em miniatura; na simulação, também as requisições montadas
+export const PayloadPreviewDialog: React.FC<PayloadPreviewDialogProps> = ({ preview, onOpenChange }) => {
+  const { toast } = useToast();
+  const entries = preview ? Object.entries(preview.payload) : [];
+  const jsonBytes = React.useMemo(
+    () => (preview ? new Blob([JSON.stringify(preview.payload)]).size : 0),
+    [preview]
+  );
+
+  const copyJson = async (data: unknown) => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(data, null, 2));
+      toast({ title: "JSON copiado" });
+    } catch (e) {
+      console.warn("[PayloadPreviewDialog] Clipboard write failed", e);
+      toast({ title: "Não foi possível copiar o JSON", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={preview !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {preview?.requests && <FlaskConical className="h-5 w-5 text-primary" aria-hidden="true" />}
+            {preview?.requests ? "Simulação de envio" : "Pré-visualização do envio"}
+          </DialogTitle>
+          <DialogDescription>
+            {entries.length} campos · {formatBytes(jsonBytes)} em JSON.
+            {preview?.requests && " Nada foi enviado e o formulário não foi alterado."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {preview && preview.notes.length > 0 && (
+          <ul className="list-disc pl-5 space-y-1 text-sm text-warning">
+            {preview.notes.map((note, i) => (
+              <li key={i}>{note}</li>
+            ))}
+          </ul>
+        )}
+
+        {preview?.requests && (
+          <div className="space-y-2">
+            {preview.requests.map(({ endpoint, headers, bytes }) => (
+              <div key={endpoint.id} className="rounded-md border p-3 text-xs space-y-1">
+                <p className="break-all font-medium">{endpoint.url}</p>
+                <p className="text-muted-foreground">
+                  {WEBHOOK_TRANSPORT_LABELS[endpoint.transport]} · {PAYLOAD_FORMAT_LABELS[endpoint.format]} · corpo de {formatBytes(bytes)}
+                </p>
+                <ul className="font-mono break-all text-muted-foreground">
+                  {Object.entries(headers).map(([name, value]) => (
+                    <li key={name}>{name}: {value}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Campo</TableHead>
+              <TableHead>Valor</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map(([key, value]) => (
+              <TableRow key={key}>
+                <TableCell className="align-top text-xs font-medium">{key}</TableCell>
+                <TableCell className="text-xs break-all">
+                  {isPhotoField(key) && value ? (
+                    <div className="flex items-center gap-3">
+                      <img
+                        src={`data:image/jpeg;base64,${value}`}
+                        alt={key}
+                        className="h-16 w-16 rounded object-cover"
+                        loading="lazy"
+                      />
+                      <span className="text-muted-foreground">{formatBytes(base64Bytes(value))}</span>
+                    </div>
+                  ) : (
+                    value || <span className="text-muted-foreground">(vazio)</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => void copyJson(preview?.payload)}>
+            <Copy className="h-4 w-4" /> Copiar JSON
+          </Button>
+          {preview?.structured && (
+            <Button type="button" variant="outline" onClick={() => void copyJson(preview.structured)}>
+              <Copy className="h-4 w-4" /> Copiar JSON v2
+            </Button>
+          )}
+          <Button type="button" onClick={() => onOpenChange(false)}>Fechar</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,31 @@
+import React from "react";
+import { CalendarDays, Moon, Sun, Sunset } from "lucide-react";
+import { PeriodColor, PeriodDefinition, PeriodIcon as PeriodIconName } from "@/config/periods";
+import { cn } from "@/lib/utils";
+
+const ICONS: Record<PeriodIconName, React.ComponentType<{ className?: string }>> = {
+  sun: Sun,
+  sunset: Sunset,
+  moon: Moon,
+  calendar: CalendarDays,
+};
+
+const TEXT_COLORS: Record<PeriodColor, string> = {
+  primary: "text-primary",
+  gold: "text-brand-gold",
+  night: "text-slate-600",
+};
+
+interface PeriodIconProps {
+  period?: PeriodDefinition; // ausente para períodos que saíram do catálogo (ex.: histórico antigo)
+  tinted?: boolean; // aplica a cor do período ao ícone
+  className?: string;
+}
+
+// Ícone do período conforme o catálogo (config/periods.ts)
+export const PeriodIcon: React.FC<PeriodIconProps> = ({ period, tinted, className }) => {
+  const Icon = ICONS[period?.icon ?? "calendar"];
+  return (
+    <Icon className={cn(className, tinted && TEXT_COLORS[period?.color ?? "primary"])} aria-hidden="true" />
+  );
+};
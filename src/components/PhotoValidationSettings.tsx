@@ -0,0 +1,97 @@
+import React from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  PhotoSource,
+  PhotoValidationPolicy,
+  PhotoValidationRule,
+  StationKind,
+} from "@/config/photoValidation";
+
+interface PhotoValidationSettingsProps {
+  value: PhotoValidationPolicy;
+  onChange: (next: PhotoValidationPolicy) => void;
+}
+
+const ROWS: Array<{ kind: StationKind; source: PhotoSource; label: string }> = [
+  { kind: "own", source: "camera", label: "Posto Natureza · Câmera" },
+  { kind: "own", source: "gallery", label: "Posto Natureza · Galeria" },
+  { kind: "competitor", source: "camera", label: "Concorrente · Câmera" },
+  { kind: "competitor", source: "gallery", label: "Concorrente · Galeria" },
+];
+
+const CHECKS: Array<{ key: "requireExif" | "requireToday" | "matchPeriod"; label: string }> = [
+  { key: "requireExif", label: "EXIF" },
+  { key: "requireToday", label: "Hoje" },
+  { key: "matchPeriod", label: "Período" },
+];
+
+// Tabela da política de validação das fotos: uma linha por tipo de posto × origem
+export const PhotoValidationSettings: React.FC<PhotoValidationSettingsProps> = ({ value, onChange }) => {
+  const update = (kind: StationKind, source: PhotoSource, patch: Partial<PhotoValidationRule>) => {
+    onChange({ ...value, [kind]: { ...value[kind], [source]: { ...value[kind][source], ...patch } } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label className="block">Validação das Fotos</Label>
+      <p className="text-xs text-muted-foreground">
+        EXIF: exige a data gravada na foto. Hoje: tirada no dia atual. Período: dentro do horário de fotos do período.
+        Idade máx.: em horas (vazio = sem limite). Bloquear: recusa a foto; caso contrário ela é aceita com aviso.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-muted-foreground">
+              <th className="text-left font-normal py-1" />
+              {CHECKS.map((c) => (
+                <th key={c.key} className="font-normal px-1">{c.label}</th>
+              ))}
+              <th className="font-normal px-1">Idade máx.</th>
+              <th className="font-normal px-1">Bloquear</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ROWS.map(({ kind, source, label }) => {
+              const rule = value[kind][source];
+              return (
+                <tr key={`${kind}-${source}`} className="border-t">
+                  <td className="py-2 pr-2">{label}</td>
+                  {CHECKS.map((c) => (
+                    <td key={c.key} className="text-center px-1">
+                      <Checkbox
+                        aria-label={`${label}: ${c.label}`}
+                        checked={rule[c.key]}
+                        onCheckedChange={(v) => update(kind, source, { [c.key]: Boolean(v) })}
+                      />
+                    </td>
+                  ))}
+                  <td className="px-1">
+                    <Input
+                      aria-label={`${label}: idade máxima em horas`}
+                      inputMode="numeric"
+                      className="h-8 w-16 mx-auto"
+                      value={rule.maxAgeHours ?? ""}
+                      onChange={(e) => {
+                        const digits = e.target.value.replace(/\D/g, "");
+                        update(kind, source, { maxAgeHours: digits ? Number(digits) : null });
+                      }}
+                    />
+                  </td>
+                  <td className="text-center px-1">
+                    <Checkbox
+                      aria-label={`${label}: bloquear`}
+                      checked={rule.onFailure === "reject"}
+                      onCheckedChange={(v) => update(kind, source, { onFailure: v ? "reject" : "warning" })}
+                    />
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
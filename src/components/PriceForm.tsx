@@ -16,37 +16,54 @@ import {
 import {
   AppState,
   PeriodKey,
+  StationData,
   readAppState,
   saveAppState,
   clearPeriodData,
   getVisibleStationIds,
   getWebhookUrl,
+  getEnabledFuels,
+  getEnabledPaymentModes,
+  defaultNameForId,
+  getWebhookEndpoints,
+  nextPeriod,
+  periodLabel,
 } from "@/lib/localStorage";
+import { FuelDefinition } from "@/config/fuels";
+import { PaymentModeDefinition } from "@/config/paymentModes";
+import { validateStationPrices } from "@/lib/priceValidation";
+import { comparePrices, formatPrice, formatPriceChange } from "@/lib/priceChanges";
 import { formatPayloadForN8n } from "@/lib/formatPayloadForN8n";
-import { imageKey, getImageBlob, blobToDataURL, dataURLToBase64, removeImageBlob, clearImageCache } from "@/lib/imagesDB";
+import { formatPayloadV2 } from "@/lib/payloadV2";
+import { getWindowStatus } from "@/lib/submissionWindow";
+import { enqueueSubmission, pendingSubmissionId } from "@/lib/outbox";
+import { archiveSubmission } from "@/lib/history";
+import { nextSubmissionId, peekSubmissionId } from "@/lib/submissionId";
+import { dryRunWebhooks, SubmissionPayloads } from "@/lib/webhook";
+import { PayloadPreview, PayloadPreviewDialog } from "@/components/PayloadPreviewDialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { imageKey, getImageBlob, blobToDataURL, dataURLToBase64, removeImagesForPeriod } from "@/lib/imagesDB";
 import { z } from "zod";
 
 interface PriceFormProps {
   period: PeriodKey;
 }
 
+type PriceWarning = { station: string; fuel: string; mode: string; message: string };
+
 // Validation schema builder using zod with dynamic stations and superRefine rules
-const createPriceFormSchema = () => {
-  const priceFieldsSchema = z.object({
-    etanol: z.string().optional(),
-    gasolinaComum: z.string().optional(),
-    gasolinaAditivada: z.string().optional(),
-    dieselS10: z.string().optional(),
-  });
+const createPriceFormSchema = (fuels: FuelDefinition[], paymentModes: PaymentModeDefinition[]) => {
+  const priceFieldsSchema = z.record(z.string(), z.string().optional());
 
   const stationSchema = z
     .object({
       photoBase64: z.string().optional(),
       noChange: z.boolean(),
-      prices: z.object({
-        vista: priceFieldsSchema,
-        prazo: priceFieldsSchema,
-      }),
+      prices: z.record(z.string(), priceFieldsSchema),
+      carriedOver: z
+        .object({ prices: z.record(z.string(), z.record(z.string(), z.boolean().optional())) })
+        .optional(),
     })
     .superRefine((val, ctx) => {
       // Foto sempre obrigatória
@@ -58,17 +75,12 @@ const createPriceFormSchema = () => {
         });
       }
 
-      // Preços obrigatórios se NÃO marcado "Não houve alteração"
+      // Preços obrigatórios (combustíveis habilitados, formas de pagamento obrigatórias)
+      // se NÃO marcado "Não houve alteração"
       if (!val.noChange) {
-        const keys: Array<keyof typeof val.prices.vista> = [
-          "etanol",
-          "gasolinaComum",
-          "gasolinaAditivada",
-          "dieselS10",
-        ];
-        (["vista", "prazo"] as const).forEach((ptype) => {
-          keys.forEach((k) => {
-            const v = val.prices[ptype][k];
+        paymentModes.filter((m) => m.required).forEach(({ id: ptype }) => {
+          fuels.forEach(({ id: k }) => {
+            const v = val.prices[ptype]?.[k];
             if (!v || v.trim() === "") {
               ctx.addIssue({
                 code: z.ZodIssueCode.custom,
@@ -78,6 +90,30 @@ const createPriceFormSchema = () => {
             }
           });
         });
+
+        // Valores copiados do período anterior precisam ser confirmados ou corrigidos
+        paymentModes.forEach(({ id: ptype }) => {
+          fuels.forEach(({ id: k }) => {
+            if (val.carriedOver?.prices[ptype]?.[k]) {
+              ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                path: ["prices", ptype, k],
+                message: "Valor copiado do período anterior: confirme ou corrija",
+              });
+            }
+          });
+        });
+
+        // Sanidade: formato, faixa do combustível e regras entre campos com severidade "error"
+        validateStationPrices(val as StationData, fuels, paymentModes)
+          .filter((i) => i.severity === "error")
+          .forEach((i) => {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: ["prices", i.mode, i.fuel],
+              message: i.message,
+            });
+          });
       }
     });
 
@@ -90,6 +126,9 @@ export const PriceForm: React.FC<PriceFormProps> = ({ period }) => {
   const [state, setState] = React.useState<AppState>(readAppState());
   const [loading, setLoading] = React.useState(false);
   const [errors, setErrors] = React.useState<Record<string, any>>({});
+  const [pendingConfirm, setPendingConfirm] = React.useState<{ warnings: PriceWarning[]; late?: string } | null>(null);
+  const [preview, setPreview] = React.useState<PayloadPreview | null>(null);
+  const [dryRun, setDryRun] = React.useState(false); // simulação: monta o envio sem chamar o webhook nem limpar o período
   const { toast } = useToast();
 
   React.useEffect(() => {
@@ -117,56 +156,38 @@ export const PriceForm: React.FC<PriceFormProps> = ({ period }) => {
     setState(next);
   };
 
-  // Remove imagens e metadados do storage híbrido ao limpar período
-  const deleteImagesForPeriod = (period: PeriodKey) => {
-    const allIds = ['reference', ...Array.from({ length: 10 }, (_, i) => `competitor_${i + 1}`)];
-    allIds.forEach(id => {
-      const key = imageKey(period, id);
-      const metaKey = key.replace('img:', 'meta:');
-      try {
-        localStorage.removeItem(key);
-        sessionStorage.removeItem(key);
-        localStorage.removeItem(metaKey);
-        sessionStorage.removeItem(metaKey);
-      } catch (e) {
-        console.error('Failed to remove image:', e);
-      }
-    });
-  };
-
-  const onClear = () => {
+  const onClear = async () => {
+    // Limpa as imagens do IndexedDB antes do estado, para o preview não reidratar a foto antiga
+    await removeImagesForPeriod(period);
     const next = clearPeriodData(period);
-    // Também limpa as imagens do storage híbrido
-    deleteImagesForPeriod(period);
     setState(next);
     setErrors({});
   };
 
   const validateForm = async () => {
-    // Primeiro, hidrata imagens em falta do storage híbrido
+    // Primeiro, hidrata imagens em falta do IndexedDB
     const currentState = readAppState();
     let updated = false;
     
     for (const id of ids) {
       const station = currentState.periods[period].stations[id];
       if (!station.photoBase64) {
-        // Tenta localStorage primeiro, depois sessionStorage
-        const key = imageKey(period, id);
-        const base64 = localStorage.getItem(key) || sessionStorage.getItem(key);
-        if (base64) {
-          station.photoBase64 = base64;
+        const blob = await getImageBlob(imageKey(period, id));
+        if (blob) {
+          station.photoBase64 = await dataURLToBase64(await blobToDataURL(blob));
           updated = true;
         }
       }
     }
     
-    // Se houve atualização, salva o estado e atualiza o component state
+    // Se houve atualização, salva o estado e atualiza o component state (as fotos ficam só em memória,
+    // ver sessionPhotos em lib/localStorage.ts)
     if (updated) {
       saveAppState(currentState);
       setState(currentState);
     }
 
-    const schema = createPriceFormSchema();
+    const schema = createPriceFormSchema(getEnabledFuels(currentState), getEnabledPaymentModes(currentState));
     const stationsSubset: Record<string, any> = {};
     ids.forEach((id) => {
       stationsSubset[id] = currentState.periods[period].stations[id];
@@ -174,7 +195,40 @@ export const PriceForm: React.FC<PriceFormProps> = ({ period }) => {
     const result = schema.safeParse({ stations: stationsSubset });
     if (result.success) {
       setErrors({});
-      return { ok: true as const };
+      // Avisos (não bloqueiam): exigem confirmação antes do envio
+      const fuels = getEnabledFuels(currentState);
+      const modes = getEnabledPaymentModes(currentState);
+      const warnings: PriceWarning[] = [];
+      ids.forEach((id) => {
+        validateStationPrices(currentState.periods[period].stations[id], fuels, modes)
+          .filter((i) => i.severity === "warning")
+          .forEach((i) => {
+            warnings.push({
+              station: currentState.meta.names[id] || id,
+              fuel: fuels.find((f) => f.id === i.fuel)?.label ?? i.fuel,
+              mode: modes.find((m) => m.id === i.mode)?.label ?? i.mode,
+              message: i.message,
+            });
+          });
+        // Variação acima do limite em relação ao último envio do posto
+        comparePrices(
+          currentState.periods[period].stations[id],
+          currentState.meta.lastSentPrices?.[id],
+          fuels,
+          modes,
+          currentState.config.priceChangeThreshold
+        )
+          .filter((c) => c.significant)
+          .forEach((c) => {
+            warnings.push({
+              station: currentState.meta.names[id] || id,
+              fuel: fuels.find((f) => f.id === c.fuel)?.label ?? c.fuel,
+              mode: modes.find((m) => m.id === c.mode)?.label ?? c.mode,
+              message: `${formatPrice(c.previous)} → ${formatPrice(c.current)} (${formatPriceChange(c)})`,
+            });
+          });
+      });
+      return { ok: true as const, warnings };
     }
 
     const errMap: Record<string, any> = {};
@@ -182,15 +236,15 @@ export const PriceForm: React.FC<PriceFormProps> = ({ period }) => {
       // Caminhos esperados: ["stations", stationId, ...]
       const stationId = String(issue.path[1] ?? "");
       if (!stationId) continue;
-      errMap[stationId] = errMap[stationId] || { prices: { vista: {}, prazo: {} } };
+      errMap[stationId] = errMap[stationId] || { prices: {} };
       if (issue.path[2] === "photoBase64") {
         errMap[stationId].photo = true;
       }
       if (issue.path[2] === "prices") {
-        const ptype = String(issue.path[3]); // vista | prazo
-        const key = String(issue.path[4]); // etanol | gasolinaComum | gasolinaAditivada | dieselS10
+        const ptype = String(issue.path[3]); // id da forma de pagamento
+        const key = String(issue.path[4]); // id do combustível no catálogo
         if (!errMap[stationId].prices[ptype]) errMap[stationId].prices[ptype] = {};
-        errMap[stationId].prices[ptype][key] = true;
+        errMap[stationId].prices[ptype][key] ??= issue.message;
       }
     }
     setErrors(errMap);
@@ -198,6 +252,49 @@ export const PriceForm: React.FC<PriceFormProps> = ({ period }) => {
   };
 
 
+  // Horário de envio do período: bloqueia ou pede confirmação, conforme a configuração
+  const checkWindow = (): { blocked?: string; late?: string } => {
+    const periodWindow = readAppState().config.submissionWindows[period];
+    if (getWindowStatus(periodWindow).state === "open") return {};
+    const reason = `O horário de envio deste período é das ${periodWindow.open} às ${periodWindow.close}.`;
+    return periodWindow.enforcement === "block"
+      ? { blocked: reason }
+      : { late: `${reason} Este envio será marcado como fora do horário.` };
+  };
+
+  const notifyInvalid = () =>
+    toast({
+      title:
+        "Atenção! Existem campos obrigatórios não preenchidos ou preços inválidos. Por favor, verifique os campos marcados em vermelho.",
+      variant: "destructive" as any,
+    });
+
+  // Os dois formatos vão para a fila: um endpoint pode passar para o v2 enquanto o envio aguarda
+  const buildPayloads = (state: AppState, submissionId: string): SubmissionPayloads => ({
+    legacy: formatPayloadForN8n(period, state, submissionId),
+    v2: formatPayloadV2(period, state, submissionId),
+  });
+
+  // Mesma validação e mesmo payload do envio, só para conferência (nada é enviado nem arquivado)
+  const onPreview = async () => {
+    const validation = await validateForm();
+    if (!validation.ok) {
+      notifyInvalid();
+      return;
+    }
+    const { blocked, late } = checkWindow();
+    const state = readAppState();
+    const previewId = (await pendingSubmissionId(period, state)) ?? peekSubmissionId(period);
+    setPreview({
+      payload: formatPayloadForN8n(period, state, previewId),
+      structured: formatPayloadV2(period, state, previewId),
+      notes: [
+        ...[blocked, late].filter(Boolean),
+        ...validation.warnings.map((w) => `${w.station} — ${w.fuel} (${w.mode}): ${w.message}`),
+      ],
+    });
+  };
+
   const onSubmit = async () => {
     const url = getWebhookUrl();
     if (!url) {
@@ -205,68 +302,79 @@ export const PriceForm: React.FC<PriceFormProps> = ({ period }) => {
       return;
     }
 
+    const { blocked, late } = checkWindow();
+    if (blocked) {
+      toast({ title: "Fora do horário de envio", description: blocked, variant: "destructive" });
+      return;
+    }
+
     // Validação antes do envio (agora com hidratação automática)
     const validation = await validateForm();
     if (!validation.ok) {
-      toast({
-        title:
-          "Atenção! Existem campos obrigatórios não preenchidos. Por favor, verifique os campos marcados em vermelho.",
-        variant: "destructive" as any,
-      });
+      notifyInvalid();
+      return;
+    }
+
+    // Preços suspeitos ou envio fora do horário: só envia após confirmação explícita
+    if (validation.warnings.length > 0 || late) {
+      setPendingConfirm({ warnings: validation.warnings, late });
       return;
     }
 
+    await send();
+  };
+
+  const send = async () => {
     try {
       setLoading(true);
       
       // Estado já foi hidratado na validação
       const readyState = readAppState();
-      
-      const payload = formatPayloadForN8n(period, readyState);
-      const res = await fetch(url, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
-      });
-      if (!res.ok) throw new Error(`HTTP ${res.status}`);
-      
-      const next = readAppState();
-      next.meta.lastSent = { ...(next.meta.lastSent || {}), [period]: new Date().toISOString() };
-      
-      // Se foi envio da manhã, copiar preços para a tarde
-      if (period === "manha") {
-        Object.keys(next.periods.manha.stations).forEach((sid) => {
-          const morningStation = next.periods.manha.stations[sid];
-          const afternoonStation = next.periods.tarde.stations[sid];
-          if (morningStation && afternoonStation) {
-            next.periods.tarde.stations[sid] = {
-              ...afternoonStation,
-              prices: {
-                vista: { ...morningStation.prices.vista },
-                prazo: { ...morningStation.prices.prazo }
-              },
-              noChange: false // Sempre permite edição na tarde
-            };
-          }
+
+      // Simulação: monta e assina as requisições de cada endpoint, sem arquivar, enviar ou limpar nada
+      if (dryRun) {
+        const previewId = (await pendingSubmissionId(period, readyState)) ?? peekSubmissionId(period);
+        const payloads = buildPayloads(readyState, previewId);
+        const requests = await dryRunWebhooks(getWebhookEndpoints(readyState), payloads, previewId);
+        setPreview({ payload: payloads.legacy, structured: payloads.v2, notes: [], requests });
+        return;
+      }
+
+      // Id novo a cada envio do usuário; os reenvios automáticos da outbox reutilizam o mesmo, assim como
+      // um novo toque em "Enviar" enquanto o envio idêntico ainda aguarda na fila
+      const submissionId = (await pendingSubmissionId(period, readyState)) ?? nextSubmissionId(period);
+      const payloads = buildPayloads(readyState, submissionId);
+      // Arquiva no histórico local e envia pela outbox: se falhar, fica guardado e é reenviado automaticamente
+      await archiveSubmission(submissionId, period, readyState, payloads.legacy);
+      const result = await enqueueSubmission(submissionId, period, payloads);
+      if (result.status === "queued") {
+        toast({
+          title: "Envio guardado no aparelho",
+          description: `Não foi possível enviar agora (${result.error}). Os dados serão reenviados automaticamente quando a conexão voltar.`,
         });
+        return;
       }
-      
-      // Clear photos, metadata and reset flags while keeping price values
-      Object.keys(next.periods[period].stations).forEach((sid) => {
-        const st = next.periods[period].stations[sid];
-        next.periods[period].stations[sid] = { ...st, photoBase64: "", metadata: undefined, noChange: false };
-      });
-      
-      // Limpar imagens do período (estado + storage híbrido)
-      deleteImagesForPeriod(period);
-      
-      saveAppState(next);
-      setState(next);
+      if (result.status === "rejected") {
+        toast({
+          title: "Envio recusado pelo servidor",
+          description: `${result.message} Os dados continuam no formulário para correção.`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Limpeza pós-envio (fotos, cópia para o próximo período) já foi feita pela outbox
+      setState(readAppState());
       setErrors({});
+      const next = nextPeriod(readyState, period);
       toast({
-        title: period === "manha" 
-          ? "✅ Obrigado por me enviar os dados, aguardo o envio da tarde até às 14h, para concluirmos."
+        title: next
+          ? `✅ Obrigado por me enviar os dados, aguardo o envio da ${next.label.toLowerCase()} até às ${readyState.config.submissionWindows[next.id].close}, para concluirmos.`
           : "✅ Obrigado, por hoje concluímos , em outro dia, basta repetir o mesmo processo.",
+        description:
+          result.ack?.status === "duplicate"
+            ? `Este envio já havia sido recebido.${result.ack.message ? ` ${result.ack.message}` : ""}`
+            : result.ack?.message,
       });
     } catch (e: any) {
       console.error("[PriceForm] send error", e);
@@ -283,11 +391,17 @@ export const PriceForm: React.FC<PriceFormProps> = ({ period }) => {
           key={id}
           id={id}
           name={state.meta.names[id]}
+          namePrefix={defaultNameForId(state, id)}
           value={state.periods[period].stations[id]}
           onChange={(next) => onStationChange(id, next)}
           onNameChange={(name) => onNameChange(id, name)}
           period={period}
           errors={errors[id]}
+          fuels={getEnabledFuels(state)}
+          paymentModes={getEnabledPaymentModes(state)}
+          previous={state.meta.lastSentPrices?.[id]}
+          changeThreshold={state.config.priceChangeThreshold}
+          carriedFromLabel={periodLabel(state, state.periods[period].stations[id].carriedOver?.from ?? period)}
         />
       ))}
 
@@ -311,10 +425,59 @@ export const PriceForm: React.FC<PriceFormProps> = ({ period }) => {
             </AlertDialogFooter>
           </AlertDialogContent>
         </AlertDialog>
-        <Button onClick={onSubmit} disabled={loading}>
-          {loading ? "Enviando..." : `Enviar Dados (${period === "manha" ? "Manhã" : "Tarde"})`}
-        </Button>
+        <AlertDialog open={pendingConfirm !== null} onOpenChange={(open) => !open && setPendingConfirm(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Confirmar envio</AlertDialogTitle>
+              <AlertDialogDescription asChild>
+                <div className="space-y-2">
+                  {pendingConfirm?.late && <p className="font-medium text-warning">{pendingConfirm.late}</p>}
+                  {pendingConfirm && pendingConfirm.warnings.length > 0 && (
+                    <>
+                      <p>Os preços abaixo parecem incomuns ou mudaram muito desde o último envio. Confira antes de enviar:</p>
+                      <ul className="list-disc pl-5 space-y-1 text-left">
+                        {pendingConfirm.warnings.map((w, i) => (
+                          <li key={i}>
+                            <span className="font-medium">{w.station}</span> — {w.fuel} ({w.mode}): {w.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </div>
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Revisar</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => {
+                  setPendingConfirm(null);
+                  void send();
+                }}
+              >
+                Enviar mesmo assim
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <Button variant="outline" onClick={() => void onPreview()} disabled={loading}>
+            Pré-visualizar envio
+          </Button>
+          <Button className="flex-1" onClick={onSubmit} disabled={loading}>
+            {loading
+              ? "Enviando..."
+              : `${dryRun ? "Simular Envio" : "Enviar Dados"} (${periodLabel(state, period)})`}
+          </Button>
+        </div>
+        <div className="flex items-center gap-2 md:col-start-2">
+          <Checkbox id={`dry-run-${period}`} checked={dryRun} onCheckedChange={(c) => setDryRun(Boolean(c))} />
+          <Label htmlFor={`dry-run-${period}`} className="font-normal text-sm text-muted-foreground">
+            Modo simulação: percorre todo o envio sem chamar o webhook nem limpar os dados
+          </Label>
+        </div>
       </div>
+      <PayloadPreviewDialog preview={preview} onOpenChange={(open) => !open && setPreview(null)} />
     </div>
   );
 };
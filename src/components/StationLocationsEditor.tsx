@@ -0,0 +1,85 @@
+import React from "react";
+import { LocateFixed } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { parseCoords } from "@/lib/imageMetadata";
+import { cn } from "@/lib/utils";
+
+// Linha editável: coordenadas em texto livre ("lat, long") e raio em metros
+export type LocationRow = { coords: string; radius: string };
+
+interface StationLocationsEditorProps {
+  stations: Array<{ id: string; label: string }>;
+  value: Record<string, LocationRow>;
+  onChange: (next: Record<string, LocationRow>) => void;
+  defaultRadius: number;
+}
+
+export const StationLocationsEditor: React.FC<StationLocationsEditorProps> = ({ stations, value, onChange, defaultRadius }) => {
+  const [locating, setLocating] = React.useState<string | null>(null);
+
+  const update = (id: string, patch: Partial<LocationRow>) => {
+    const current = value[id] ?? { coords: "", radius: String(defaultRadius) };
+    onChange({ ...value, [id]: { ...current, ...patch } });
+  };
+
+  // Preenche com a posição atual do aparelho (útil quando o cadastro é feito no próprio posto)
+  const fillCurrentPosition = (id: string) => {
+    if (!navigator.geolocation) return;
+    setLocating(id);
+    navigator.geolocation.getCurrentPosition(
+      (pos) => {
+        update(id, { coords: `${pos.coords.latitude.toFixed(6)}, ${pos.coords.longitude.toFixed(6)}` });
+        setLocating(null);
+      },
+      (err) => {
+        console.warn("[StationLocationsEditor] Geolocation failed", err);
+        setLocating(null);
+      },
+      { enableHighAccuracy: true, timeout: 15_000 }
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label className="block">Localização dos Postos</Label>
+      <p className="text-xs text-muted-foreground">
+        Fotos tiradas fora do raio informado são sinalizadas. Deixe em branco para não verificar o local.
+      </p>
+      <ul className="space-y-2">
+        {stations.map((s) => {
+          const row = value[s.id] ?? { coords: "", radius: String(defaultRadius) };
+          const invalid = row.coords.trim() !== "" && !parseCoords(row.coords);
+          return (
+            <li key={s.id} className="space-y-1 rounded-md border px-3 py-2">
+              <span className="block text-sm font-medium">{s.label}</span>
+              <div className="flex items-center gap-2">
+                <Input
+                  aria-label={`Coordenadas de ${s.label}`}
+                  placeholder="-23.550520, -46.633308"
+                  value={row.coords}
+                  onChange={(e) => update(s.id, { coords: e.target.value })}
+                  aria-invalid={invalid}
+                  className={cn("flex-1", invalid && "border-destructive")}
+                />
+                <Input
+                  aria-label={`Raio em metros de ${s.label}`}
+                  inputMode="numeric"
+                  className="w-20"
+                  value={row.radius}
+                  onChange={(e) => update(s.id, { radius: e.target.value.replace(/\D/g, "") })}
+                />
+                <span className="text-xs text-muted-foreground">m</span>
+                <Button type="button" variant="ghost" size="icon" aria-label="Usar localização atual"
+                  disabled={locating !== null} onClick={() => fillCurrentPosition(s.id)}>
+                  <LocateFixed className={cn("h-4 w-4", locating === s.id && "animate-pulse")} />
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
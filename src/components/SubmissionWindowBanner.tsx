@@ -0,0 +1,58 @@
+import React from "react";
+import { AlarmClock } from "lucide-react";
+import { PeriodKey, readAppState } from "@/lib/localStorage";
+import { formatCountdown, formatOpening, getWindowStatus } from "@/lib/submissionWindow";
+import { cn } from "@/lib/utils";
+
+interface SubmissionWindowBannerProps {
+  period: PeriodKey;
+}
+
+const TICK_MS = 30_000;
+
+// Faixa com o horário de envio do período e a contagem regressiva até abrir/fechar
+export const SubmissionWindowBanner: React.FC<SubmissionWindowBannerProps> = ({ period }) => {
+  const [periodWindow, setPeriodWindow] = React.useState(() => readAppState().config.submissionWindows[period]);
+  const [now, setNow] = React.useState(() => new Date());
+
+  React.useEffect(() => {
+    const sync = () => setPeriodWindow(readAppState().config.submissionWindows[period]);
+    const timer = window.setInterval(() => setNow(new Date()), TICK_MS);
+    window.addEventListener("app-state-updated", sync);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener("app-state-updated", sync);
+    };
+  }, [period]);
+
+  const status = getWindowStatus(periodWindow, now);
+  const late = status.state === "after";
+
+  let text: string;
+  if (status.state === "open") {
+    text = `Envio aberto até ${periodWindow.close} · faltam ${formatCountdown(status.closesAt.getTime() - now.getTime())}`;
+  } else if (status.state === "before") {
+    text = `Envio abre às ${periodWindow.open} · em ${formatCountdown(status.opensAt.getTime() - now.getTime())}`;
+  } else {
+    text = `Horário de envio encerrado (${periodWindow.open} às ${periodWindow.close})`;
+    if (status.nextOpensAt) text += ` · próxima abertura: ${formatOpening(status.nextOpensAt)}`;
+  }
+  if (status.state !== "open") {
+    text += periodWindow.enforcement === "block" ? " · envio bloqueado fora do horário" : " · envios agora serão marcados como fora do horário";
+  }
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        "mb-4 flex items-center justify-center gap-2 rounded-md border px-3 py-2 text-sm",
+        status.state === "open" && "border-success/30 bg-success/10 text-success",
+        status.state === "before" && "border-border bg-background/80 text-muted-foreground",
+        late && "border-warning/40 bg-warning/10 text-warning"
+      )}
+    >
+      <AlarmClock className="size-4 shrink-0" aria-hidden="true" />
+      <span>{text}</span>
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PeriodDefinition } from "@/config/periods";
+import { SubmissionWindow, WEEKDAY_LABELS } from "@/config/submissionWindows";
+import { PeriodKey } from "@/lib/localStorage";
+import { windowError } from "@/lib/submissionWindow";
+import { cn } from "@/lib/utils";
+
+interface SubmissionWindowsSettingsProps {
+  periods: PeriodDefinition[]; // só os períodos habilitados
+  value: Record<PeriodKey, SubmissionWindow>;
+  onChange: (next: Record<PeriodKey, SubmissionWindow>) => void;
+}
+
+// Horário de envio de cada período: abertura, fechamento, dias da semana e bloqueio
+export const SubmissionWindowsSettings: React.FC<SubmissionWindowsSettingsProps> = ({ periods, value, onChange }) => {
+  const update = (period: PeriodKey, patch: Partial<SubmissionWindow>) =>
+    onChange({ ...value, [period]: { ...value[period], ...patch } });
+
+  return (
+    <div className="space-y-3">
+      <Label className="block">Horário de Envio</Label>
+      {periods.map(({ id: period, label: periodName }) => {
+        const w = value[period];
+        if (!w) return null;
+        const error = windowError(w);
+        const invalidTime = w.close <= w.open;
+        return (
+          <div key={period} className="space-y-2 rounded-md border px-3 py-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="w-14 font-medium">{periodName}</span>
+              <Input
+                type="time"
+                aria-label={`${periodName}: abertura`}
+                className="h-8 w-28"
+                value={w.open}
+                onChange={(e) => e.target.value && update(period, { open: e.target.value })}
+              />
+              <span className="text-muted-foreground">às</span>
+              <Input
+                type="time"
+                aria-label={`${periodName}: fechamento`}
+                aria-invalid={invalidTime}
+                className={cn("h-8 w-28", invalidTime && "border-destructive")}
+                value={w.close}
+                onChange={(e) => e.target.value && update(period, { close: e.target.value })}
+              />
+              <div className="flex items-center gap-2 ml-auto">
+                <Checkbox
+                  id={`window-block-${period}`}
+                  checked={w.enforcement === "block"}
+                  onCheckedChange={(c) => update(period, { enforcement: c ? "block" : "warn" })}
+                />
+                <Label htmlFor={`window-block-${period}`} className="font-normal">Bloquear fora do horário</Label>
+              </div>
+            </div>
+            {error && <p className="text-xs text-destructive">{error}</p>}
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAY_LABELS.map((label, day) => {
+                const active = w.weekdays.includes(day);
+                return (
+                  <button
+                    key={day}
+                    type="button"
+                    aria-pressed={active}
+                    className={cn(
+                      "rounded-md border px-2 py-1 text-xs transition-colors",
+                      active ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:bg-accent"
+                    )}
+                    onClick={() =>
+                      update(period, {
+                        weekdays: active ? w.weekdays.filter((d) => d !== day) : [...w.weekdays, day].sort(),
+                      })
+                    }
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import React from "react";
+import { Plus, Trash2, Zap } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DEFAULT_WEBHOOK_OPTIONS,
+  PAYLOAD_FORMAT_LABELS,
+  PayloadFormat,
+  PRIMARY_WEBHOOK_ID,
+  WEBHOOK_SOURCE_LABELS,
+  WEBHOOK_TRANSPORT_LABELS,
+  WebhookEndpoint,
+  WebhookOptions,
+  WebhookTransport,
+} from "@/config/webhook";
+import { resolveWebhook } from "@/lib/localStorage";
+import { isValidWebhookUrl, testWebhook, WebhookTestResult } from "@/lib/webhook";
+import { cn } from "@/lib/utils";
+
+interface WebhookSettingsProps {
+  url: string; // URL principal digitada (vazio = usar a configuração do projeto)
+  onUrlChange: (url: string) => void;
+  primaryOptions: WebhookOptions;
+  onPrimaryOptionsChange: (next: WebhookOptions) => void;
+  secondaries: WebhookEndpoint[];
+  onSecondariesChange: (next: WebhookEndpoint[]) => void;
+}
+
+type TestState = { status: "running" } | { status: "done"; result: WebhookTestResult };
+
+const TestStatus: React.FC<{ state?: TestState }> = ({ state }) => {
+  if (!state) return null;
+  if (state.status === "running") return <p className="text-xs text-muted-foreground">Testando conexão...</p>;
+  const { result } = state;
+  return result.ok ? (
+    <p className="text-xs text-primary">
+      Conexão OK (HTTP {result.status}, {result.elapsedMs} ms)
+      {result.ack && ` · resposta: ${result.ack.status}${result.ack.message ? ` — ${result.ack.message}` : ""}`}
+    </p>
+  ) : (
+    <p className="text-xs text-destructive">Falha no teste: {result.error}</p>
+  );
+};
+
+const SecretInput: React.FC<{ value?: string; onChange: (v: string) => void }> = ({ value, onChange }) => (
+  <Input
+    type="password"
+    autoComplete="off"
+    aria-label="Segredo para assinatura HMAC"
+    placeholder="Segredo para assinatura (opcional)"
+    className="h-8 flex-1"
+    value={value ?? ""}
+    onChange={(e) => onChange(e.target.value)}
+  />
+);
+
+const TransportSelect: React.FC<{ value: WebhookTransport; onChange: (v: WebhookTransport) => void }> = ({ value, onChange }) => (
+  <Select value={value} onValueChange={(v) => onChange(v as WebhookTransport)}>
+    <SelectTrigger className="h-8 w-60" aria-label="Transporte do envio">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {(Object.keys(WEBHOOK_TRANSPORT_LABELS) as WebhookTransport[]).map((t) => (
+        <SelectItem key={t} value={t}>{WEBHOOK_TRANSPORT_LABELS[t]}</SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const FormatSelect: React.FC<{ value: PayloadFormat; onChange: (v: PayloadFormat) => void }> = ({ value, onChange }) => (
+  <Select value={value} onValueChange={(v) => onChange(v as PayloadFormat)}>
+    <SelectTrigger className="h-8 w-56" aria-label="Formato do payload">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {(Object.keys(PAYLOAD_FORMAT_LABELS) as PayloadFormat[]).map((f) => (
+        <SelectItem key={f} value={f}>{PAYLOAD_FORMAT_LABELS[f]}</SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+// Webhook principal (URL efetiva e origem) e endpoints secundários que recebem o mesmo envio
+export const WebhookSettings: React.FC<WebhookSettingsProps> = ({
+  url,
+  onUrlChange,
+  primaryOptions,
+  onPrimaryOptionsChange,
+  secondaries,
+  onSecondariesChange,
+}) => {
+  const [tests, setTests] = React.useState<Record<string, TestState>>({});
+  const effective = resolveWebhook(url.trim() || undefined);
+
+  const runTest = async (id: string, target: Pick<WebhookEndpoint, "url"> & WebhookOptions) => {
+    setTests((prev) => ({ ...prev, [id]: { status: "running" } }));
+    const result = await testWebhook(target);
+    setTests((prev) => ({ ...prev, [id]: { status: "done", result } }));
+  };
+
+  const updateSecondary = (id: string, patch: Partial<WebhookEndpoint>) =>
+    onSecondariesChange(secondaries.map((w) => (w.id === id ? { ...w, ...patch } : w)));
+
+  const urlInvalid = url.trim() !== "" && !isValidWebhookUrl(url.trim());
+
+  return (
+    <div className="space-y-3">
+      <Label className="block">Webhook</Label>
+      <div className="space-y-2 rounded-md border px-3 py-2">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="font-medium">Endereço em uso</span>
+          <Badge variant="secondary">{WEBHOOK_SOURCE_LABELS[effective.source]}</Badge>
+        </div>
+        <p className="break-all text-xs text-muted-foreground">{effective.url}</p>
+        <div className="flex items-center gap-2">
+          <Input
+            aria-label="URL do webhook principal"
+            placeholder="Deixe em branco para usar a configuração do projeto"
+            value={url}
+            onChange={(e) => onUrlChange(e.target.value)}
+            aria-invalid={urlInvalid}
+            className={cn("flex-1", urlInvalid && "border-destructive")}
+          />
+          <Button type="button" variant="outline" size="sm" disabled={urlInvalid || tests[PRIMARY_WEBHOOK_ID]?.status === "running"}
+            onClick={() => void runTest(PRIMARY_WEBHOOK_ID, { ...primaryOptions, url: effective.url })}>
+            <Zap className="h-4 w-4" /> Testar
+          </Button>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <TransportSelect
+            value={primaryOptions.transport}
+            onChange={(transport) => onPrimaryOptionsChange({ ...primaryOptions, transport })}
+          />
+          <FormatSelect
+            value={primaryOptions.format}
+            onChange={(format) => onPrimaryOptionsChange({ ...primaryOptions, format })}
+          />
+          <SecretInput
+            value={primaryOptions.secret}
+            onChange={(secret) => onPrimaryOptionsChange({ ...primaryOptions, secret: secret || undefined })}
+          />
+        </div>
+        <TestStatus state={tests[PRIMARY_WEBHOOK_ID]} />
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Endpoints secundários (ex.: um n8n reserva) recebem o mesmo envio. Falhas neles não impedem o envio principal.
+        Com um segredo, cada requisição leva a assinatura HMAC-SHA256 nos cabeçalhos X-Signature e X-Signature-Timestamp.
+        O formato v2 segue o JSON Schema publicado em{" "}
+        <a href="/schemas/payload-v2.schema.json" target="_blank" rel="noreferrer" className="underline">
+          /schemas/payload-v2.schema.json
+        </a>.
+      </p>
+      <ul className="space-y-2">
+        {secondaries.map((w) => {
+          const invalid = w.url.trim() !== "" && !isValidWebhookUrl(w.url.trim());
+          return (
+            <li key={w.id} className="space-y-1 rounded-md border px-3 py-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  aria-label="Endpoint habilitado"
+                  checked={w.enabled}
+                  onCheckedChange={(c) => updateSecondary(w.id, { enabled: Boolean(c) })}
+                />
+                <Input
+                  aria-label="URL do endpoint secundário"
+                  placeholder="https://"
+                  value={w.url}
+                  onChange={(e) => updateSecondary(w.id, { url: e.target.value })}
+                  aria-invalid={invalid}
+                  className={cn("flex-1", invalid && "border-destructive")}
+                />
+                <Button type="button" variant="ghost" size="icon" aria-label="Testar endpoint"
+                  disabled={!w.url.trim() || invalid || tests[w.id]?.status === "running"}
+                  onClick={() => void runTest(w.id, { ...w, url: w.url.trim() })}>
+                  <Zap className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" aria-label="Remover endpoint"
+                  onClick={() => onSecondariesChange(secondaries.filter((s) => s.id !== w.id))}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <TransportSelect value={w.transport} onChange={(transport) => updateSecondary(w.id, { transport })} />
+                <FormatSelect value={w.format} onChange={(format) => updateSecondary(w.id, { format })} />
+                <SecretInput value={w.secret} onChange={(secret) => updateSecondary(w.id, { secret: secret || undefined })} />
+              </div>
+              <TestStatus state={tests[w.id]} />
+            </li>
+          );
+        })}
+      </ul>
+      <Button type="button" variant="outline" size="sm"
+        onClick={() => onSecondariesChange([...secondaries, { ...DEFAULT_WEBHOOK_OPTIONS, id: crypto.randomUUID(), url: "", enabled: true }])}>
+        <Plus className="h-4 w-4" /> Adicionar endpoint secundário
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+/**
+ * Fuel catalogue
+ *
+ * Defines which fuels appear on each station card, in which order, and the key
+ * used for them in the n8n payload (e.g. "(Concorrente 1) Preços a vista/etanol").
+ *
+ * The enabled flag here is only the default: each device can turn fuels on/off in
+ * Configurações, and that choice is persisted in the app state. Everything else
+ * (labels, payload keys, price ranges) always comes from this file.
+ *
+ * minPrice/maxPrice (R$) are hard limits: a price outside them blocks the submission,
+ * which catches typos such as "0,59" for "5,99".
+ */
+
+export type FuelId = string;
+
+export type FuelDefinition = {
+  id: FuelId;          // chave usada no estado (prices[modo][id])
+  label: string;       // texto exibido no formulário
+  payloadKey: string;  // sufixo do campo enviado ao n8n
+  enabled: boolean;
+  order: number;
+  minPrice: number;    // R$ (GNV: R$/m³)
+  maxPrice: number;
+};
+
+export const DEFAULT_FUELS: FuelDefinition[] = [
+  { id: "etanol", label: "Etanol", payloadKey: "etanol", enabled: true, order: 10, minPrice: 2.50, maxPrice: 7.50 },
+  { id: "gasolinaComum", label: "Gasolina Comum", payloadKey: "gasolinaComum", enabled: true, order: 20, minPrice: 4.00, maxPrice: 9.00 },
+  { id: "gasolinaAditivada", label: "Gasolina Aditivada", payloadKey: "gasolinaAditivada", enabled: true, order: 30, minPrice: 4.00, maxPrice: 9.50 },
+  { id: "gasolinaPremium", label: "Gasolina Premium (Podium/V-Power)", payloadKey: "gasolinaPremium", enabled: false, order: 40, minPrice: 4.50, maxPrice: 10.50 },
+  { id: "dieselS10", label: "Diesel S-10", payloadKey: "dieselS10", enabled: true, order: 50, minPrice: 4.00, maxPrice: 9.00 },
+  { id: "dieselS500", label: "Diesel S-500", payloadKey: "dieselS500", enabled: false, order: 60, minPrice: 4.00, maxPrice: 9.00 },
+  { id: "gnv", label: "GNV", payloadKey: "gnv", enabled: false, order: 70, minPrice: 3.00, maxPrice: 7.50 },
+];
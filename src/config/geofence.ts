@@ -0,0 +1,17 @@
+/**
+ * Geofence configuration
+ *
+ * Each station can have registered coordinates and a radius (in meters). Photos whose
+ * EXIF GPS falls outside the radius are flagged as "warning"; beyond
+ * radius × GEOFENCE_INVALID_FACTOR they are flagged as "invalid".
+ */
+
+export type StationLocation = {
+  latitude: number;
+  longitude: number;
+  radius: number; // metros
+};
+
+export const DEFAULT_GEOFENCE_RADIUS = 200;
+
+export const GEOFENCE_INVALID_FACTOR = 5;
@@ -0,0 +1,30 @@
+/**
+ * Payment mode catalogue
+ *
+ * Each enabled mode renders its own price section on the station card and its own
+ * block of fields in the n8n payload, titled with payloadTitle
+ * (e.g. "(Concorrente 1) Preços a vista/etanol").
+ *
+ * "vista" and "prazo" keep their original payload titles so existing n8n flows keep working.
+ * Optional modes (required: false) are sent too, with empty values when not filled in.
+ */
+
+export type PaymentModeId = string;
+
+export type PaymentModeDefinition = {
+  id: PaymentModeId;     // chave usada no estado (prices[id])
+  label: string;         // título da seção no formulário
+  payloadTitle: string;  // título usado nos campos enviados ao n8n
+  required: boolean;     // exige todos os preços quando "Não houve alteração" não está marcado
+  enabled: boolean;
+  order: number;
+};
+
+export const DEFAULT_PAYMENT_MODES: PaymentModeDefinition[] = [
+  { id: "vista", label: "Preços à Vista", payloadTitle: "Preços a vista", required: true, enabled: true, order: 10 },
+  { id: "prazo", label: "Preços a Prazo", payloadTitle: "Preços a Prazo", required: true, enabled: true, order: 20 },
+  { id: "pix", label: "Preços no PIX", payloadTitle: "Preços no PIX", required: false, enabled: false, order: 30 },
+  { id: "debito", label: "Preços no Débito", payloadTitle: "Preços no Débito", required: false, enabled: false, order: 40 },
+  { id: "credito", label: "Preços no Crédito", payloadTitle: "Preços no Crédito", required: false, enabled: false, order: 50 },
+  { id: "app", label: "Preços com App de Desconto", payloadTitle: "Preços com App de Desconto", required: false, enabled: false, order: 60 },
+];
@@ -0,0 +1,93 @@
+/**
+ * Period catalogue
+ *
+ * Defines the daily collections (tabs), in order. Each enabled period gets its own tab,
+ * its own bucket of station data in the app state and its own submissions; its label is
+ * sent as "Periodo Marcado" in the n8n payload.
+ *
+ * `window` is the default submission window (adjustable per device in Configurações);
+ * `photoWindow` is the time of day in which a photo is accepted as belonging to the period.
+ * `carryOver` is what a successful send hands to the next enabled period: the prices (which the
+ * attendant must then re-confirm field by field), only the station names (prices start blank), or
+ * nothing at all; `keepNoChange` also carries the "Não houve alteração" flag.
+ *
+ * As with the other catalogues, only the enabled flag is chosen per device.
+ */
+
+import { SubmissionWindow } from "./submissionWindows";
+
+export type PeriodKey = string;
+
+export type PeriodIcon = "sun" | "sunset" | "moon" | "calendar";
+
+export type PeriodColor = "primary" | "gold" | "night";
+
+export type CarryOverMode = "prices" | "names" | "nothing";
+
+export type CarryOverPolicy = {
+  copy: CarryOverMode;
+  keepNoChange: boolean;
+};
+
+export type PeriodDefinition = {
+  id: PeriodKey;       // chave do período no estado, nas imagens e na outbox
+  label: string;       // aba, botões e "Periodo Marcado" no payload
+  icon: PeriodIcon;
+  color: PeriodColor;  // cor da aba ativa
+  enabled: boolean;
+  order: number;
+  window: SubmissionWindow;
+  photoWindow: { from: string; to: string }; // HH:mm
+  carryOver: CarryOverPolicy; // do período para o próximo habilitado
+};
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+const COPY_PRICES: CarryOverPolicy = { copy: "prices", keepNoChange: false };
+
+export const DEFAULT_PERIODS: PeriodDefinition[] = [
+  {
+    id: "manha",
+    label: "Manhã",
+    icon: "sun",
+    color: "primary",
+    enabled: true,
+    order: 10,
+    window: { open: "06:00", close: "12:00", weekdays: EVERY_DAY, enforcement: "warn" },
+    photoWindow: { from: "05:00", to: "13:00" },
+    carryOver: COPY_PRICES,
+  },
+  {
+    id: "tarde",
+    label: "Tarde",
+    icon: "sunset",
+    color: "gold",
+    enabled: true,
+    order: 20,
+    window: { open: "12:00", close: "14:00", weekdays: EVERY_DAY, enforcement: "warn" },
+    photoWindow: { from: "11:00", to: "23:59" },
+    carryOver: COPY_PRICES,
+  },
+  {
+    id: "noite",
+    label: "Noite",
+    icon: "moon",
+    color: "night",
+    enabled: false,
+    order: 30,
+    window: { open: "18:00", close: "22:00", weekdays: EVERY_DAY, enforcement: "warn" },
+    photoWindow: { from: "17:00", to: "23:59" },
+    carryOver: COPY_PRICES,
+  },
+  {
+    id: "diario",
+    label: "Diário",
+    icon: "calendar",
+    color: "primary",
+    enabled: false,
+    order: 40,
+    window: { open: "06:00", close: "20:00", weekdays: EVERY_DAY, enforcement: "warn" },
+    photoWindow: { from: "00:00", to: "23:59" },
+    carryOver: COPY_PRICES,
+  },
+];
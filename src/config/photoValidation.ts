@@ -0,0 +1,34 @@
+/**
+ * Photo validation policy
+ *
+ * One rule per station type (own / competitor) and photo source (camera / gallery).
+ * A rule lists the checks applied to the photo's date (EXIF DateTimeOriginal, or the
+ * file's capture time for camera shots without EXIF) and what happens when one fails:
+ * "reject" refuses the photo, "warning" keeps it with a warning status.
+ *
+ * The defaults can be adjusted per device in the settings modal.
+ */
+
+export type PhotoSource = "camera" | "gallery";
+export type StationKind = "own" | "competitor";
+
+export type PhotoValidationRule = {
+  requireExif: boolean; // exige data no EXIF (fotos da câmera costumam vir sem)
+  requireToday: boolean; // tirada no dia atual
+  maxAgeHours: number | null; // idade máxima da foto, em horas (null = sem limite)
+  matchPeriod: boolean; // horário dentro do photoWindow do período (config/periods.ts)
+  onFailure: "reject" | "warning";
+};
+
+export type PhotoValidationPolicy = Record<StationKind, Record<PhotoSource, PhotoValidationRule>>;
+
+export const DEFAULT_PHOTO_VALIDATION: PhotoValidationPolicy = {
+  own: {
+    camera: { requireExif: false, requireToday: true, maxAgeHours: 12, matchPeriod: false, onFailure: "warning" },
+    gallery: { requireExif: true, requireToday: true, maxAgeHours: 12, matchPeriod: false, onFailure: "warning" },
+  },
+  competitor: {
+    camera: { requireExif: false, requireToday: true, maxAgeHours: 12, matchPeriod: true, onFailure: "warning" },
+    gallery: { requireExif: true, requireToday: true, maxAgeHours: 12, matchPeriod: true, onFailure: "reject" },
+  },
+};
@@ -0,0 +1,52 @@
+/**
+ * Cross-field price rules
+ *
+ * Each rule compares two prices of the same station and fires when `higher` is
+ * below `lower`. Rules are checked only when both prices are filled in.
+ *
+ * severity "error" blocks the submission; "warning" asks for confirmation before sending.
+ */
+
+import { FuelId } from "./fuels";
+import { PaymentModeId } from "./paymentModes";
+
+export type PriceRuleSeverity = "error" | "warning";
+
+export type PriceRule =
+  | {
+      // mesma forma de pagamento: combustível `higher` deve custar pelo menos o `lower`
+      kind: "fuel";
+      higher: FuelId;
+      lower: FuelId;
+      severity: PriceRuleSeverity;
+      message: string;
+    }
+  | {
+      // mesmo combustível: forma de pagamento `higher` deve custar pelo menos a `lower`
+      kind: "paymentMode";
+      higher: PaymentModeId;
+      lower: PaymentModeId;
+      severity: PriceRuleSeverity;
+      message: string;
+    };
+
+export const DEFAULT_PRICE_RULES: PriceRule[] = [
+  {
+    kind: "paymentMode",
+    higher: "prazo",
+    lower: "vista",
+    severity: "warning",
+    message: "Preço a prazo menor que o preço à vista",
+  },
+  {
+    kind: "fuel",
+    higher: "gasolinaAditivada",
+    lower: "gasolinaComum",
+    severity: "warning",
+    message: "Gasolina aditivada mais barata que a comum",
+  },
+];
+
+// Variação (em %) em relação ao último envio a partir da qual o preço é destacado
+// e o envio pede confirmação. Ajustável nas Configurações.
+export const DEFAULT_PRICE_CHANGE_THRESHOLD = 5;
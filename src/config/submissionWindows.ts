@@ -0,0 +1,21 @@
+/**
+ * Submission windows
+ *
+ * Each period accepts submissions between `open` and `close` (HH:mm, device local time)
+ * on the listed weekdays (0 = domingo … 6 = sábado). Outside the window the submission is
+ * either blocked or sent after confirmation and flagged as late, per `enforcement`.
+ * Windows do not wrap past midnight: `close` must be later than `open` on the same day,
+ * and at least one weekday must be selected.
+ *
+ * Defaults come from each period in config/periods.ts and can be adjusted per device
+ * in the settings modal.
+ */
+
+export type SubmissionWindow = {
+  open: string; // HH:mm
+  close: string; // HH:mm
+  weekdays: number[]; // 0 = domingo … 6 = sábado
+  enforcement: "block" | "warn";
+};
+
+export const WEEKDAY_LABELS = ["Dom", "Seg", "Ter", "Qua", "Qui", "Sex", "Sáb"];
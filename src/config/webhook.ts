@@ -1,14 +1,81 @@
 /**
- * Internal webhook configuration
- * 
- * To use a custom webhook URL for this project, set the INTERNAL_WEBHOOK_URL below.
- * To use the default behavior (localStorage + fallback), leave it as undefined.
- * 
- * This configuration has the highest priority and will override any other webhook settings.
+ * Webhook configuration
+ *
+ * The primary webhook URL is resolved in this order:
+ *   1. a URL saved on the device in Configurações ("stored");
+ *   2. INTERNAL_WEBHOOK_URL below ("internal");
+ *   3. VITE_WEBHOOK_URL (or the legacy NEXT_PUBLIC_/REACT_APP_ names) ("env");
+ *   4. DEFAULT_WEBHOOK_URL ("default").
+ *
+ * Secondary endpoints (e.g. a backup n8n) are saved per device and receive the same
+ * submission; only the primary decides whether a submission counts as delivered.
+ *
+ * Each endpoint picks its transport: "json" posts the flat payload with the photos inline
+ * as base64 (what the existing n8n flows expect); "multipart" posts multipart/form-data with
+ * the same fields as form fields and each photo as a binary JPEG part, which is about a third
+ * smaller and avoids one huge JSON string on slow connections.
+ *
+ * Every submission carries a stable id ("ID do Envio" field and Idempotency-Key header) that
+ * automatic retries reuse. The webhook may answer with JSON such as
+ * {"status": "accepted" | "duplicate" | "rejected", "message": "..."}; a rejected submission
+ * is not retried and its data stays in the form. Without that body, any 2xx counts as accepted.
+ *
+ * Each endpoint also picks the payload format: "legacy" is the flat object with Portuguese
+ * labels as keys; "v2" is structured JSON with stable catalogue ids, numeric prices and ISO
+ * timestamps (lib/payloadV2.ts, JSON Schema at /schemas/payload-v2.schema.json). In multipart,
+ * v2 goes as a "payload" JSON field plus one "photo_<stationId>" file part per photo.
+ *
+ * An endpoint with a shared secret gets signed requests: X-Signature-Timestamp carries the Unix
+ * time in seconds and X-Signature carries "sha256=" + hex HMAC-SHA256(secret, timestamp + "." + body),
+ * computed over the exact bytes sent (JSON text or the encoded multipart body). The receiving flow
+ * recomputes it and should reject stale timestamps (e.g. older than 5 minutes) to stop replays.
  */
 
 // Set your project-specific webhook URL here, or leave undefined for default behavior
 export const INTERNAL_WEBHOOK_URL: string | undefined = "https://criadordigital-n8n-webhook.xpr5o6.easypanel.host/webhook/SiteFormulario2";
 
 // Example:
-// export const INTERNAL_WEBHOOK_URL = "https://your-webhook-url.com/endpoint";
\ No newline at end of file
+// export const INTERNAL_WEBHOOK_URL = "https://your-webhook-url.com/endpoint";
+
+// Default do projeto (n8n)
+export const DEFAULT_WEBHOOK_URL = "https://criadordigital-n8n-editor.xpr5o6.easypanel.host/webhook/SiteFormulario";
+
+export type WebhookSource = "stored" | "internal" | "env" | "default";
+
+export const WEBHOOK_SOURCE_LABELS: Record<WebhookSource, string> = {
+  stored: "Salva neste aparelho",
+  internal: "Configuração interna do projeto",
+  env: "Variável de ambiente",
+  default: "Padrão do projeto",
+};
+
+export const PRIMARY_WEBHOOK_ID = "primary";
+
+export type WebhookTransport = "json" | "multipart";
+
+export const WEBHOOK_TRANSPORT_LABELS: Record<WebhookTransport, string> = {
+  json: "JSON (fotos em base64)",
+  multipart: "Multipart (fotos como arquivo)",
+};
+
+export type PayloadFormat = "legacy" | "v2";
+
+export const PAYLOAD_FORMAT_LABELS: Record<PayloadFormat, string> = {
+  legacy: "Campos planos (legado)",
+  v2: "JSON estruturado (v2)",
+};
+
+// Opções de cada endpoint (o principal guarda as suas à parte, pois a URL dele é resolvida)
+export type WebhookOptions = {
+  transport: WebhookTransport;
+  format: PayloadFormat;
+  secret?: string; // segredo compartilhado para assinar as requisições (vazio = sem assinatura)
+};
+
+export const DEFAULT_WEBHOOK_OPTIONS: WebhookOptions = { transport: "json", format: "legacy" };
+
+export type WebhookEndpoint = WebhookOptions & {
+  id: string; // PRIMARY_WEBHOOK_ID ou UUID dos secundários
+  url: string;
+  enabled: boolean;
+};
@@ -0,0 +1,23 @@
+import * as React from "react";
+import { listOutbox } from "@/lib/outbox";
+
+// Quantidade de envios aguardando na fila, atualizada a cada mudança na outbox
+export function useOutboxCount() {
+  const [count, setCount] = React.useState(0);
+
+  React.useEffect(() => {
+    let active = true;
+    const refresh = async () => {
+      const entries = await listOutbox();
+      if (active) setCount(entries.length);
+    };
+    refresh();
+    window.addEventListener("outbox-updated", refresh);
+    return () => {
+      active = false;
+      window.removeEventListener("outbox-updated", refresh);
+    };
+  }, []);
+
+  return count;
+}
@@ -1,5 +1,19 @@
-import { AppState, PeriodKey, StationData } from "./localStorage";
+import {
+  AppState,
+  getEnabledFuels,
+  getEnabledPaymentModes,
+  getVisibleStationIds,
+  isOwnStationId,
+  MAX_OWN_STATIONS,
+  PeriodKey,
+  periodLabel,
+  PriceFields,
+  stationNumber,
+} from "./localStorage";
+import { FuelDefinition } from "../config/fuels";
+import { PaymentModeDefinition } from "../config/paymentModes";
 import { format } from "date-fns";
+import { isOutsideWindow } from "./submissionWindow";
 
 const normalizePrice = (value: string): string => {
   if (!value) return "";
@@ -9,92 +23,74 @@ const normalizePrice = (value: string): string => {
   return v;
 };
 
-// Fixed prefixes mapping based on StationKey
-// Only keys used by the current app will be referenced (postoNatureza1 and concorrente1..10)
-export type StationKey =
-  | "postoNatureza1"
-  | "postoNatureza2"
-  | "postoNatureza3"
-  | "concorrente1"
-  | "concorrente2"
-  | "concorrente3"
-  | "concorrente4"
-  | "concorrente5"
-  | "concorrente6"
-  | "concorrente7"
-  | "concorrente8"
-  | "concorrente9"
-  | "concorrente10";
-
-const PREFIX_MAP: Record<StationKey, string> = {
-  postoNatureza1: "(Posto Natureza 1)",
-  postoNatureza2: "(Posto Natureza 2)",
-  postoNatureza3: "(Posto Natureza 3)",
-  concorrente1: "(Concorrente 1)",
-  concorrente2: "(Concorrente 2)",
-  concorrente3: "(Concorrente 3)",
-  concorrente4: "(Concorrente 4)",
-  concorrente5: "(Concorrente 5)",
-  concorrente6: "(Concorrente 6)",
-  concorrente7: "(Concorrente 7)",
-  concorrente8: "(Concorrente 8)",
-  concorrente9: "(Concorrente 9)",
-  concorrente10: "(Concorrente 10)",
+// Field prefixes: own stations are "(Posto Natureza 1..3)"; competitors are "(Concorrente N)",
+// where N is the competitor's current position in the registry (no upper limit)
+const stationPrefix = (state: AppState, id: string): string | undefined => {
+  const n = stationNumber(state, id);
+  if (isOwnStationId(id)) {
+    return n >= 1 && n <= MAX_OWN_STATIONS ? `(Posto Natureza ${n})` : undefined;
+  }
+  return n >= 1 ? `(Concorrente ${n})` : undefined;
 };
 
-const stationKeyFromId = (id: string): StationKey | undefined => {
-  if (id === "reference") return "postoNatureza1";
-  const m = id.match(/^competitor_(\d+)$/);
-  if (!m) return undefined;
-  const n = Number(m[1]);
-  if (n < 1 || n > 10) return undefined;
-  return (`concorrente${n}` as StationKey);
-};
+const PHOTO_FIELD = / Foto da (minha )?placa$/;
+
+// Campos do payload que levam a foto em base64 (enviados como arquivo no transporte multipart)
+export const isPhotoField = (key: string) => PHOTO_FIELD.test(key);
+
+// Nome do arquivo da foto a partir do prefixo do posto: "(Concorrente 2) Foto da placa" → "Concorrente 2.jpg"
+export const photoFileName = (key: string) => `${key.replace(PHOTO_FIELD, "").replace(/[()]/g, "")}.jpg`;
 
 const section = (
   prefixLabel: string,
-  type: "vista" | "prazo",
-  prices: StationData["prices"][typeof type]
+  mode: PaymentModeDefinition,
+  prices: PriceFields | undefined,
+  fuels: FuelDefinition[]
 ) => {
-  const title = type === "vista" ? "Preços a vista" : "Preços a Prazo";
-  return {
-    [`${prefixLabel} ${title}/etanol`]: normalizePrice(prices.etanol),
-    [`${prefixLabel} ${title}/gasolinaComum`]: normalizePrice(prices.gasolinaComum),
-    [`${prefixLabel} ${title}/gasolinaAditivada`]: normalizePrice(prices.gasolinaAditivada),
-    [`${prefixLabel} ${title}/dieselS10`]: normalizePrice(prices.dieselS10),
-  } as Record<string, string>;
+  const title = mode.payloadTitle;
+  const out: Record<string, string> = {};
+  fuels.forEach((fuel) => {
+    out[`${prefixLabel} ${title}/${fuel.payloadKey}`] = normalizePrice(prices?.[fuel.id] ?? "");
+  });
+  return out;
 };
 
 export const formatPayloadForN8n = (
   period: PeriodKey,
-  state: AppState
+  state: AppState,
+  submissionId: string // lib/submissionId.ts; também vai no cabeçalho Idempotency-Key
 ): Record<string, string> => {
   const now = new Date();
   const payload: Record<string, string> = {
+    "ID do Envio": submissionId,
     "Data e Hora do Envio": format(now, "dd/MM/yyyy (HH:mm)"),
-    "Periodo Marcado": period === "manha" ? "Manhã" : "Tarde",
+    "Periodo Marcado": periodLabel(state, period),
+    "Enviado fora do horário": isOutsideWindow(state.config.submissionWindows[period], now) ? "SIM" : "NÃO",
   };
 
-  const ids = Object.keys(state.periods[period].stations);
+  const fuels = getEnabledFuels(state);
+  const paymentModes = getEnabledPaymentModes(state);
+  const ids = getVisibleStationIds(state).filter((id) => state.periods[period].stations[id]);
   ids.forEach((id) => {
     const name = state.meta.names[id] || id;
     const st = state.periods[period].stations[id];
+    const own = isOwnStationId(id);
 
-    const sk = stationKeyFromId(id);
-    const prefix = sk ? PREFIX_MAP[sk] : `(${name})`;
+    const prefix = stationPrefix(state, id) ?? `(${name})`;
 
     // Keep editable names as separate fields
-    if (id === "reference") {
-      payload["Nome do Posto"] = name;
+    const n = stationNumber(state, id);
+    if (own) {
+      payload[n === 1 ? "Nome do Posto" : `Nome do Posto ${n}`] = name;
     } else {
-      const m = id.match(/^competitor_(\d+)$/);
-      if (m) payload[`Nome do Concorrente ${m[1]}`] = name;
+      payload[`Nome do Concorrente ${n}`] = name;
     }
 
-    Object.assign(payload, section(prefix, "vista", st.prices.vista));
-    Object.assign(payload, section(prefix, "prazo", st.prices.prazo));
+    paymentModes.forEach((mode) => {
+      Object.assign(payload, section(prefix, mode, st.prices[mode.id], fuels));
+    });
 
-    payload[`${prefix} ${id === "reference" ? "Foto da minha placa" : "Foto da placa"}`] = st.photoBase64 || "";
+    payload[`${prefix} ${own ? "Foto da minha placa" : "Foto da placa"}`] = st.photoBase64 || "";
     payload[`${prefix} Marcou Opção de Alteração de preço`] = st.noChange ? "SIM" : "NÃO";
     
     // Adiciona metadados da imagem
@@ -112,6 +108,34 @@ export const formatPayloadForN8n = (
       if (st.metadata.gps?.latitude && st.metadata.gps?.longitude) {
         payload[`${prefix} GPS da Foto`] = `${st.metadata.gps.latitude.toFixed(6)}, ${st.metadata.gps.longitude.toFixed(6)}`;
       }
+      if (st.metadata.tamperScore !== undefined) {
+        payload[`${prefix} Indícios de edição`] = st.metadata.tamperReasons?.length
+          ? st.metadata.tamperReasons.join("; ")
+          : "NÃO";
+      }
+      if (st.metadata.duplicateReason) {
+        payload[`${prefix} Foto Repetida`] = st.metadata.duplicateReason;
+      }
+      if (st.metadata.deviceLocation) {
+        const loc = st.metadata.deviceLocation;
+        payload[`${prefix} Localização do Aparelho`] = `${loc.latitude.toFixed(6)}, ${loc.longitude.toFixed(6)}`;
+        payload[`${prefix} Precisão da Localização do Aparelho (m)`] = String(loc.accuracy);
+        payload[`${prefix} Data/Hora da Localização do Aparelho`] = new Date(loc.timestamp).toLocaleString('pt-BR');
+      }
+      if (st.metadata.distanceMeters !== undefined) {
+        payload[`${prefix} Distância da Foto ao Posto (m)`] = String(st.metadata.distanceMeters);
+      }
+      // Leitura automática da placa: valor reconhecido e confiança (0-100) de cada campo
+      if (st.metadata.ocr) {
+        payload[`${prefix} Confiança do OCR`] = String(st.metadata.ocr.confidence);
+        st.metadata.ocr.fields.forEach((f) => {
+          const mode = paymentModes.find((m) => m.id === f.mode);
+          const fuel = fuels.find((x) => x.id === f.fuel);
+          if (!mode || !fuel) return;
+          payload[`${prefix} OCR ${mode.payloadTitle}/${fuel.payloadKey}`] = normalizePrice(f.recognized);
+          payload[`${prefix} OCR Confiança ${mode.payloadTitle}/${fuel.payloadKey}`] = String(f.confidence);
+        });
+      }
     }
   });
 
@@ -0,0 +1,213 @@
+import { format, subDays } from "date-fns";
+import { openDatabase, requestResult, txDone } from "./idb";
+import { compressImage } from "./imagesDB";
+import type { WebhookAck } from "./webhook";
+import { AppState, getEnabledFuels, getEnabledPaymentModes, getVisibleStationIds, PeriodKey, StationData } from "./localStorage";
+
+// Arquivo local de tudo o que foi enviado ao webhook (IndexedDB), com miniaturas das fotos
+export type HistoryStatus = "pending" | "sent" | "superseded" | "rejected";
+
+export type HistoryStation = {
+  id: string;
+  name: string;
+  noChange: boolean;
+  prices: StationData["prices"];
+  thumbnailKey?: string;
+  validationStatus?: NonNullable<StationData["metadata"]>["validationStatus"];
+};
+
+export type HistoryEntry = {
+  id: string;
+  day: string; // yyyy-MM-dd
+  period: PeriodKey;
+  createdAt: string; // ISO string
+  sentAt?: string; // ISO string
+  status: HistoryStatus;
+  lastError?: string;
+  attempts: number;
+  ack?: WebhookAck; // confirmação devolvida pelo webhook principal, se houver
+  fuels: Array<{ id: string; label: string }>; // combustíveis habilitados no momento do envio
+  paymentModes?: Array<{ id: string; label: string }>; // idem para formas de pagamento
+  stations: HistoryStation[];
+  payload: Record<string, string>; // fotos removidas, ver thumbnailKey
+};
+
+const DB_NAME = "price_registry_history";
+const DB_VERSION = 1;
+const ENTRIES_STORE = "submissions";
+const THUMBS_STORE = "thumbnails";
+const RETENTION_DAYS = 90;
+const THUMB_SIZE = 160;
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+        db.createObjectStore(ENTRIES_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(THUMBS_STORE)) {
+        db.createObjectStore(THUMBS_STORE);
+      }
+    }).catch((e) => {
+      dbPromise = undefined;
+      throw e;
+    });
+  }
+  return dbPromise;
+};
+
+export const thumbnailKey = (entryId: string, stationId: string) => `${entryId}:${stationId}`;
+
+const makeThumbnail = async (base64: string): Promise<Blob | undefined> => {
+  try {
+    const photo = await (await fetch(`data:image/jpeg;base64,${base64}`)).blob();
+    return await compressImage(photo, THUMB_SIZE);
+  } catch (e) {
+    console.warn("[history] Failed to create thumbnail", e);
+    return undefined;
+  }
+};
+
+// Remove entradas (e miniaturas) mais antigas que o período de retenção
+const pruneHistory = async (db: IDBDatabase) => {
+  const cutoff = format(subDays(new Date(), RETENTION_DAYS), "yyyy-MM-dd");
+  const entries = (await requestResult(
+    db.transaction(ENTRIES_STORE, "readonly").objectStore(ENTRIES_STORE).getAll()
+  )) as HistoryEntry[];
+  const expired = entries.filter((e) => e.day < cutoff);
+  if (expired.length === 0) return;
+
+  const tx = db.transaction([ENTRIES_STORE, THUMBS_STORE], "readwrite");
+  expired.forEach((e) => {
+    tx.objectStore(ENTRIES_STORE).delete(e.id);
+    e.stations.forEach((s) => s.thumbnailKey && tx.objectStore(THUMBS_STORE).delete(s.thumbnailKey));
+  });
+  await txDone(tx);
+};
+
+// Arquiva o payload gerado para o período com o id do envio (o mesmo usado pela outbox)
+export const archiveSubmission = async (
+  id: string,
+  period: PeriodKey,
+  state: AppState,
+  payload: Record<string, string>
+): Promise<string> => {
+  const now = new Date();
+
+  try {
+    const photos = new Set<string>();
+    const thumbs: Array<[string, Blob]> = [];
+    const stations: HistoryStation[] = [];
+
+    for (const sid of getVisibleStationIds(state)) {
+      const st = state.periods[period].stations[sid];
+      if (!st) continue;
+      let key: string | undefined;
+      if (st.photoBase64) {
+        photos.add(st.photoBase64);
+        const thumb = await makeThumbnail(st.photoBase64);
+        if (thumb) {
+          key = thumbnailKey(id, sid);
+          thumbs.push([key, thumb]);
+        }
+      }
+      stations.push({
+        id: sid,
+        name: state.meta.names[sid] || sid,
+        noChange: st.noChange,
+        prices: structuredClone(st.prices),
+        thumbnailKey: key,
+        validationStatus: st.metadata?.validationStatus,
+      });
+    }
+
+    // Fotos em base64 não são guardadas no histórico, apenas as miniaturas
+    const slimPayload = Object.fromEntries(
+      Object.entries(payload).map(([k, v]) => [k, photos.has(v) ? "" : v])
+    );
+
+    const entry: HistoryEntry = {
+      id,
+      day: format(now, "yyyy-MM-dd"),
+      period,
+      createdAt: now.toISOString(),
+      status: "pending",
+      attempts: 0,
+      fuels: getEnabledFuels(state).map(({ id, label }) => ({ id, label })),
+      paymentModes: getEnabledPaymentModes(state).map(({ id, label }) => ({ id, label })),
+      stations,
+      payload: slimPayload,
+    };
+
+    const db = await openDB();
+    const tx = db.transaction([ENTRIES_STORE, THUMBS_STORE], "readwrite");
+    const entries = tx.objectStore(ENTRIES_STORE);
+    // Reenvio com o mesmo id (lib/outbox.ts pendingSubmissionId): atualiza os dados e mantém
+    // a data original e as tentativas já feitas
+    const existing = (await requestResult(entries.get(id))) as HistoryEntry | undefined;
+    entries.put(existing ? { ...entry, createdAt: existing.createdAt, attempts: existing.attempts } : entry);
+    thumbs.forEach(([key, blob]) => tx.objectStore(THUMBS_STORE).put(blob, key));
+    await txDone(tx);
+    await pruneHistory(db);
+    window.dispatchEvent(new CustomEvent("history-updated"));
+  } catch (e) {
+    // O histórico é auxiliar: uma falha aqui nunca deve impedir o envio
+    console.error("[history] Failed to archive submission", e);
+  }
+
+  return id;
+};
+
+export const updateHistoryEntry = async (
+  id: string,
+  patch: Partial<Pick<HistoryEntry, "status" | "sentAt" | "lastError" | "attempts" | "ack">>
+) => {
+  try {
+    const db = await openDB();
+    const tx = db.transaction(ENTRIES_STORE, "readwrite");
+    const store = tx.objectStore(ENTRIES_STORE);
+    const current = (await requestResult(store.get(id))) as HistoryEntry | undefined;
+    if (current) store.put({ ...current, ...patch });
+    await txDone(tx);
+    window.dispatchEvent(new CustomEvent("history-updated"));
+  } catch (e) {
+    console.error("[history] Failed to update entry", e);
+  }
+};
+
+// Lista do mais recente para o mais antigo
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  try {
+    const db = await openDB();
+    const store = db.transaction(ENTRIES_STORE, "readonly").objectStore(ENTRIES_STORE);
+    const entries = (await requestResult(store.getAll())) as HistoryEntry[];
+    return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (e) {
+    console.error("[history] Failed to read history", e);
+    return [];
+  }
+};
+
+export const getHistoryEntry = async (id: string): Promise<HistoryEntry | undefined> => {
+  try {
+    const db = await openDB();
+    const store = db.transaction(ENTRIES_STORE, "readonly").objectStore(ENTRIES_STORE);
+    return (await requestResult(store.get(id))) as HistoryEntry | undefined;
+  } catch (e) {
+    console.error("[history] Failed to read entry", e);
+    return undefined;
+  }
+};
+
+export const getThumbnail = async (key: string): Promise<Blob | undefined> => {
+  try {
+    const db = await openDB();
+    const store = db.transaction(THUMBS_STORE, "readonly").objectStore(THUMBS_STORE);
+    return (await requestResult(store.get(key))) as Blob | undefined;
+  } catch (e) {
+    console.error("[history] Failed to read thumbnail", e);
+    return undefined;
+  }
+};
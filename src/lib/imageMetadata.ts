@@ -1,5 +1,8 @@
 import exifr from 'exifr';
-import { format, isToday, isYesterday } from 'date-fns';
+import { format, isToday } from 'date-fns';
+import { DeviceLocation, isOwnStationId, readAppState } from './localStorage';
+import { GEOFENCE_INVALID_FACTOR } from '../config/geofence';
+import { PhotoSource } from '../config/photoValidation';
 
 export interface ImageMetadata {
   dateTime?: Date;
@@ -10,6 +13,14 @@ export interface ImageMetadata {
     latitude?: number;
     longitude?: number;
   };
+  // Campos usados na análise de edição (lib/tamperScore.ts)
+  timestamps?: {
+    original?: Date; // DateTimeOriginal
+    created?: Date; // CreateDate (DateTimeDigitized)
+    modified?: Date; // DateTime (ModifyDate)
+  };
+  exifWidth?: number;
+  exifHeight?: number;
 }
 
 export interface ValidationResult {
@@ -20,18 +31,41 @@ export interface ValidationResult {
   status?: 'validated' | 'invalid' | 'warning';
 }
 
+export interface LocationValidationResult extends ValidationResult {
+  distance?: number; // metros
+  radius?: number; // metros
+}
+
+const STATUS_RANK = { validated: 0, warning: 1, invalid: 2 } as const;
+
+/**
+ * Combina dois status de validação, prevalecendo o mais grave
+ */
+export const worstStatus = (
+  a?: ValidationResult['status'],
+  b?: ValidationResult['status']
+): ValidationResult['status'] => {
+  if (!a) return b;
+  if (!b) return a;
+  return STATUS_RANK[a] >= STATUS_RANK[b] ? a : b;
+};
+
 /**
  * Extrai metadados EXIF da imagem
  */
 export const extractImageMetadata = async (file: File): Promise<ImageMetadata | null> => {
   try {
     const exifData = await exifr.parse(file, {
-      pick: ['DateTimeOriginal', 'DateTime', 'CreateDate', 'Make', 'Model', 'Software', 'GPS']
+      pick: [
+        'DateTimeOriginal', 'DateTime', 'ModifyDate', 'CreateDate', 'Make', 'Model', 'Software', 'GPS',
+        'ExifImageWidth', 'ExifImageHeight'
+      ]
     });
 
     if (!exifData) return null;
 
     const dateTime = exifData.DateTimeOriginal || exifData.DateTime || exifData.CreateDate;
+    const toDate = (v: unknown) => (v ? new Date(v as string) : undefined);
     
     return {
       dateTime: dateTime ? new Date(dateTime) : undefined,
@@ -41,7 +75,14 @@ export const extractImageMetadata = async (file: File): Promise<ImageMetadata |
       gps: exifData.GPS ? {
         latitude: exifData.GPS.latitude,
         longitude: exifData.GPS.longitude
-      } : undefined
+      } : undefined,
+      timestamps: {
+        original: toDate(exifData.DateTimeOriginal),
+        created: toDate(exifData.CreateDate),
+        modified: toDate(exifData.ModifyDate || exifData.DateTime)
+      },
+      exifWidth: exifData.ExifImageWidth,
+      exifHeight: exifData.ExifImageHeight
     };
   } catch (error) {
     console.warn('Erro ao extrair metadados EXIF:', error);
@@ -49,71 +90,177 @@ export const extractImageMetadata = async (file: File): Promise<ImageMetadata |
   }
 };
 
+const toMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
 /**
- * Valida se a imagem foi tirada no dia atual (para concorrentes)
+ * Valida a data da foto conforme a política configurada para o tipo de posto e a origem
+ * (config/photoValidation.ts): EXIF obrigatório, tirada hoje, idade máxima e janela do período.
+ * Fotos da câmera sem data no EXIF usam o horário de captura do arquivo.
  */
-export const validateImageDate = async (file: File, stationId: string): Promise<ValidationResult> => {
-  // Posto de referência não precisa de validação
-  if (stationId === "reference") {
-    return { isValid: true };
-  }
-
-  // Apenas concorrentes precisam de validação
-  if (!stationId.startsWith("competitor_")) {
-    return { isValid: true };
-  }
+export const validateImageDate = async (
+  file: File,
+  stationId: string,
+  source: PhotoSource,
+  period: string,
+  metadata?: ImageMetadata | null
+): Promise<ValidationResult> => {
+  const { config } = readAppState();
+  const rule = config.photoValidation[isOwnStationId(stationId) ? 'own' : 'competitor'][source];
+  const fail = (reason: string, suggestion = "Use a câmera para tirar uma foto atual"): ValidationResult =>
+    rule.onFailure === 'reject'
+      ? { isValid: false, reason, suggestion, metadata: metadata ?? undefined, status: 'invalid' }
+      : { isValid: true, reason, metadata: metadata ?? undefined, status: 'warning' };
 
   try {
-    const metadata = await extractImageMetadata(file);
-    
-    if (!metadata) {
-      return {
-        isValid: false,
-        reason: "Não foi possível verificar os metadados da imagem",
-        suggestion: "Use a câmera para tirar uma foto atual",
-        status: 'invalid'
-      };
+    if (metadata === undefined) metadata = await extractImageMetadata(file);
+
+    let photoDate = metadata?.dateTime;
+    if (!photoDate) {
+      if (rule.requireExif) {
+        return fail(metadata ? "Não foi possível verificar a data da imagem" : "Não foi possível verificar os metadados da imagem");
+      }
+      // Câmera: o arquivo acabou de ser gerado, então a data de modificação é a da captura
+      if (source === 'camera' && file.lastModified) photoDate = new Date(file.lastModified);
+    }
+    if (!photoDate) {
+      return rule.requireToday || rule.maxAgeHours || rule.matchPeriod
+        ? fail("Não foi possível verificar a data da imagem")
+        : { isValid: true, metadata: metadata ?? undefined, status: 'validated' };
     }
 
-    if (!metadata.dateTime) {
-      return {
-        isValid: false,
-        reason: "Não foi possível verificar a data da imagem",
-        suggestion: "Use a câmera para tirar uma foto atual",
-        status: 'invalid'
-      };
+    if (rule.requireToday && !isToday(photoDate)) {
+      return fail(`Esta imagem foi tirada em ${format(photoDate, 'dd/MM/yyyy')}, não no dia atual`);
     }
 
-    // Verifica se a foto foi tirada apenas hoje (sem tolerância)
-    const photoDate = metadata.dateTime;
-    const isTodayPhoto = isToday(photoDate);
-
-    if (!isTodayPhoto) {
-      const photoDateFormatted = format(photoDate, 'dd/MM/yyyy');
-      return {
-        isValid: false,
-        reason: `Esta imagem foi tirada em ${photoDateFormatted}, não no dia atual`,
-        suggestion: "Use a câmera para tirar uma foto atual",
-        metadata,
-        status: 'invalid'
-      };
+    if (rule.maxAgeHours) {
+      const ageHours = (Date.now() - photoDate.getTime()) / 3_600_000;
+      if (ageHours > rule.maxAgeHours) {
+        return fail(`Esta imagem foi tirada há ${Math.floor(ageHours)} horas (limite de ${rule.maxAgeHours} horas)`);
+      }
+    }
+
+    const periodWindow = config.periods.find((p) => p.id === period)?.photoWindow;
+    if (rule.matchPeriod && periodWindow) {
+      const minutes = photoDate.getHours() * 60 + photoDate.getMinutes();
+      if (minutes < toMinutes(periodWindow.from) || minutes > toMinutes(periodWindow.to)) {
+        return fail(
+          `Esta imagem foi tirada às ${format(photoDate, 'HH:mm')}, fora do horário do período (${periodWindow.from} às ${periodWindow.to})`,
+          "Tire uma foto atual da placa"
+        );
+      }
     }
 
     return {
       isValid: true,
-      metadata,
+      metadata: metadata ?? undefined,
       status: 'validated'
     };
 
   } catch (error) {
     console.warn('Erro na validação de data da imagem:', error);
+    return fail("Erro ao processar a imagem", "Tente novamente ou use a câmera");
+  }
+};
+
+/**
+ * Distância em metros entre dois pontos (fórmula de haversine)
+ */
+export const distanceInMeters = (
+  a: { latitude: number; longitude: number },
+  b: { latitude: number; longitude: number }
+): number => {
+  const R = 6371000;
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(h));
+};
+
+const COORDS_RE = /^\s*(-?\d{1,2}(?:\.\d+)?)\s*,\s*(-?\d{1,3}(?:\.\d+)?)\s*$/;
+
+/**
+ * Lê coordenadas digitadas como "lat, long" (ex.: "-23.5505, -46.6333");
+ * vazio ou inválido -> undefined
+ */
+export const parseCoords = (text: string) => {
+  const m = text.match(COORDS_RE);
+  if (!m) return undefined;
+  const latitude = Number(m[1]);
+  const longitude = Number(m[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return undefined;
+  return { latitude, longitude };
+};
+
+export const formatDistance = (meters: number): string =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1).replace('.', ',')} km` : `${Math.round(meters)} m`;
+
+/**
+ * Valida se a foto foi tirada perto das coordenadas cadastradas do posto (geofence).
+ * Não bloqueia a foto: apenas sinaliza "warning" (fora do raio) ou "invalid" (muito longe).
+ */
+export const validateImageLocation = (
+  gps: ImageMetadata['gps'],
+  stationId: string
+): LocationValidationResult => {
+  const location = readAppState().config.stationLocations[stationId];
+  // Posto sem coordenadas cadastradas: nada a validar
+  if (!location) {
+    return { isValid: true };
+  }
+
+  if (gps?.latitude === undefined || gps?.longitude === undefined) {
     return {
-      isValid: false,
-      reason: "Erro ao processar a imagem",
-      suggestion: "Tente novamente ou use a câmera",
-      status: 'invalid'
+      isValid: true,
+      reason: "Foto sem localização GPS: não foi possível confirmar o local",
+      status: 'warning',
+      radius: location.radius
     };
   }
+
+  const distance = Math.round(distanceInMeters({ latitude: gps.latitude, longitude: gps.longitude }, location));
+  if (distance <= location.radius) {
+    return { isValid: true, status: 'validated', distance, radius: location.radius };
+  }
+
+  const far = distance > location.radius * GEOFENCE_INVALID_FACTOR;
+  return {
+    isValid: true,
+    reason: `Foto tirada a ${formatDistance(distance)} do posto (raio de ${formatDistance(location.radius)})`,
+    status: far ? 'invalid' : 'warning',
+    distance,
+    radius: location.radius
+  };
+};
+
+/**
+ * Posição atual do aparelho, se habilitado nas Configurações e autorizado pelo usuário.
+ * Nunca rejeita: sem permissão, sem sinal ou após o tempo limite devolve undefined.
+ */
+export const getDeviceLocation = (timeoutMs = 10000): Promise<DeviceLocation | undefined> => {
+  if (!readAppState().config.captureDeviceLocation || !navigator.geolocation) {
+    return Promise.resolve(undefined);
+  }
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (pos) => resolve({
+        latitude: pos.coords.latitude,
+        longitude: pos.coords.longitude,
+        accuracy: Math.round(pos.coords.accuracy),
+        timestamp: new Date(pos.timestamp).toISOString()
+      }),
+      (error) => {
+        console.warn('Localização do aparelho indisponível:', error.message);
+        resolve(undefined);
+      },
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 }
+    );
+  });
 };
 
 /**
@@ -1,3 +1,5 @@
+import { openDatabase, requestResult, txDone } from './idb';
+
 export type ImageKey = string; // ex: "img:manha:reference"
 export type MetadataKey = string; // ex: "meta:manha:reference"
 
@@ -7,28 +9,100 @@ export const imageKey = (period: string, stationId: string): ImageKey =>
 export const metadataKey = (period: string, stationId: string): MetadataKey =>
   `meta:${period}:${stationId}`;
 
-// Sistema de armazenamento híbrido (localStorage + sessionStorage fallback)
-export async function saveImageBlob(key: ImageKey, blob: Blob, metadata?: any) {
-  try {
-    const dataURL = await blobToDataURL(blob);
-    const base64 = await dataURLToBase64(dataURL);
-    
-    // Tenta localStorage primeiro
-    try {
-      localStorage.setItem(key, base64);
-      if (metadata) {
-        const metaKey = key.replace('img:', 'meta:');
-        localStorage.setItem(metaKey, JSON.stringify(metadata));
+const toMetadataKey = (key: ImageKey): MetadataKey => key.replace('img:', 'meta:');
+
+// Armazenamento em IndexedDB: um único object store com chaves "img:*" (Blob) e "meta:*" (objeto)
+const DB_NAME = 'price_registry_images';
+const DB_VERSION = 1;
+const STORE_NAME = 'images';
+const MIGRATION_FLAG = 'images_idb_migrated';
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME);
       }
-    } catch (e) {
-      // Se localStorage falhou, tenta sessionStorage
-      console.warn('LocalStorage full, using sessionStorage fallback');
-      sessionStorage.setItem(key, base64);
-      if (metadata) {
-        const metaKey = key.replace('img:', 'meta:');
-        sessionStorage.setItem(metaKey, JSON.stringify(metadata));
+    })
+      .then(async (db) => {
+        await migrateLegacyStorage(db);
+        return db;
+      })
+      .catch((e) => {
+        // Permite nova tentativa na próxima chamada
+        dbPromise = undefined;
+        throw e;
+      });
+  }
+  return dbPromise;
+};
+
+const readEntry = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDB();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  return (await requestResult(store.get(key))) as T | undefined;
+};
+
+export const base64ToBlob = async (base64: string): Promise<Blob> => {
+  const response = await fetch(`data:image/jpeg;base64,${base64}`);
+  return await response.blob();
+};
+
+// Migração única das chaves "img:"/"meta:" gravadas em localStorage/sessionStorage pela versão anterior
+async function migrateLegacyStorage(db: IDBDatabase) {
+  try {
+    if (localStorage.getItem(MIGRATION_FLAG)) return;
+
+    const entries: Array<[string, Blob | unknown]> = [];
+    const legacyKeys: Array<[Storage, string]> = [];
+    for (const storage of [localStorage, sessionStorage]) {
+      for (const key of Object.keys(storage)) {
+        const raw = storage.getItem(key);
+        if (raw === null) continue;
+        if (key.startsWith('img:')) {
+          entries.push([key, await base64ToBlob(raw)]);
+          legacyKeys.push([storage, key]);
+        } else if (key.startsWith('meta:')) {
+          try {
+            entries.push([key, JSON.parse(raw)]);
+          } catch {
+            console.warn('Ignoring unreadable legacy metadata:', key);
+          }
+          legacyKeys.push([storage, key]);
+        }
       }
     }
+
+    if (entries.length > 0) {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      entries.forEach(([key, value]) => store.put(value, key));
+      await txDone(tx);
+      legacyKeys.forEach(([storage, key]) => storage.removeItem(key));
+      console.log(`Migrated ${entries.length} image entries to IndexedDB`);
+    }
+
+    localStorage.setItem(MIGRATION_FLAG, new Date().toISOString());
+  } catch (e) {
+    // Mantém os dados antigos intactos; a migração será tentada novamente no próximo acesso
+    console.error('Failed to migrate legacy image storage:', e);
+  }
+}
+
+export async function saveImageBlob(key: ImageKey, blob: Blob, metadata?: any) {
+  try {
+    const db = await openDB();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    store.put(blob, key);
+    if (metadata) {
+      store.put(metadata, toMetadataKey(key));
+    } else {
+      store.delete(toMetadataKey(key));
+    }
+    await txDone(tx);
   } catch (e) {
     console.error('Failed to save image:', e);
     throw new Error('Não foi possível salvar a imagem');
@@ -37,14 +111,7 @@ export async function saveImageBlob(key: ImageKey, blob: Blob, metadata?: any) {
 
 export async function getImageBlob(key: ImageKey): Promise<Blob | undefined> {
   try {
-    // Tenta localStorage primeiro, depois sessionStorage
-    const base64 = localStorage.getItem(key) || sessionStorage.getItem(key);
-    if (!base64) return undefined;
-    
-    // Converte base64 de volta para blob
-    const dataURL = `data:image/jpeg;base64,${base64}`;
-    const response = await fetch(dataURL);
-    return await response.blob();
+    return await readEntry<Blob>(key);
   } catch (e) {
     console.error('Failed to get image:', e);
     return undefined;
@@ -53,10 +120,7 @@ export async function getImageBlob(key: ImageKey): Promise<Blob | undefined> {
 
 export async function getImageMetadata(key: ImageKey): Promise<any> {
   try {
-    const metaKey = key.replace('img:', 'meta:');
-    const metaData = localStorage.getItem(metaKey) || sessionStorage.getItem(metaKey);
-    if (!metaData) return undefined;
-    return JSON.parse(metaData);
+    return await readEntry(toMetadataKey(key));
   } catch (e) {
     console.error('Failed to get image metadata:', e);
     return undefined;
@@ -65,11 +129,12 @@ export async function getImageMetadata(key: ImageKey): Promise<any> {
 
 export async function removeImageBlob(key: ImageKey) {
   try {
-    localStorage.removeItem(key);
-    sessionStorage.removeItem(key);
-    const metaKey = key.replace('img:', 'meta:');
-    localStorage.removeItem(metaKey);
-    sessionStorage.removeItem(metaKey);
+    const db = await openDB();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    store.delete(key);
+    store.delete(toMetadataKey(key));
+    await txDone(tx);
   } catch (e) {
     console.error('Failed to remove image:', e);
   }
@@ -89,7 +154,7 @@ export async function dataURLToBase64(dataURL: string): Promise<string> {
 }
 
 // Compressão ultra agressiva para economizar armazenamento
-export async function compressImage(file: File, maxSize = 600): Promise<Blob> {
+export async function compressImage(file: Blob, maxSize = 600): Promise<Blob> {
   try {
     const img = document.createElement('img');
     const dataURL = await blobToDataURL(file);
@@ -124,45 +189,45 @@ export async function compressImage(file: File, maxSize = 600): Promise<Blob> {
   }
 }
 
+// Remove todas as imagens de um período (ex.: ao limpar o formulário ou após o envio)
+export async function removeImagesForPeriod(period: string) {
+  try {
+    const db = await openDB();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    store.delete(IDBKeyRange.bound(`img:${period}:`, `img:${period}:\uffff`));
+    store.delete(IDBKeyRange.bound(`meta:${period}:`, `meta:${period}:\uffff`));
+    await txDone(tx);
+  } catch (e) {
+    console.error('Failed to remove images for period:', e);
+  }
+}
+
 // Função para limpar cache quando necessário
-export function clearImageCache() {
+export async function clearImageCache() {
   try {
-    const imageKeys = Object.keys(localStorage).filter(key => key.startsWith('img:'));
-    const metaKeys = Object.keys(localStorage).filter(key => key.startsWith('meta:'));
-    imageKeys.forEach(key => localStorage.removeItem(key));
-    metaKeys.forEach(key => localStorage.removeItem(key));
-    
-    const sessionImageKeys = Object.keys(sessionStorage).filter(key => key.startsWith('img:'));
-    const sessionMetaKeys = Object.keys(sessionStorage).filter(key => key.startsWith('meta:'));
-    sessionImageKeys.forEach(key => sessionStorage.removeItem(key));
-    sessionMetaKeys.forEach(key => sessionStorage.removeItem(key));
-    
-    console.log(`Cleared ${imageKeys.length + metaKeys.length + sessionImageKeys.length + sessionMetaKeys.length} cached items`);
+    const db = await openDB();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).clear();
+    await txDone(tx);
+    console.log('Cleared image cache');
   } catch (e) {
     console.error('Failed to clear image cache:', e);
   }
 }
 
-// Verifica espaço disponível aproximado
-export function getStorageInfo() {
+// Uso real de armazenamento da origem (IndexedDB + localStorage) segundo o navegador
+export async function getStorageInfo() {
   try {
-    const localStorageSize = new Blob(Object.values(localStorage)).size;
-    const sessionStorageSize = new Blob(Object.values(sessionStorage)).size;
-    
+    const estimate = await navigator.storage?.estimate?.();
+    const persisted = await navigator.storage?.persisted?.();
     return {
-      localStorage: {
-        used: Math.round(localStorageSize / 1024), // KB
-        available: true
-      },
-      sessionStorage: {
-        used: Math.round(sessionStorageSize / 1024), // KB  
-        available: true
-      }
+      used: Math.round((estimate?.usage ?? 0) / 1024), // KB
+      quota: Math.round((estimate?.quota ?? 0) / 1024), // KB
+      persisted: Boolean(persisted),
+      available: Boolean(estimate),
     };
   } catch (e) {
-    return {
-      localStorage: { used: 0, available: false },
-      sessionStorage: { used: 0, available: false }
-    };
+    return { used: 0, quota: 0, persisted: false, available: false };
   }
-}
\ No newline at end of file
+}
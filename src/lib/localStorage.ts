@@ -1,19 +1,34 @@
-import { INTERNAL_WEBHOOK_URL } from "../config/webhook";
+import {
+  DEFAULT_WEBHOOK_OPTIONS,
+  DEFAULT_WEBHOOK_URL,
+  INTERNAL_WEBHOOK_URL,
+  PRIMARY_WEBHOOK_ID,
+  WebhookEndpoint,
+  WebhookOptions,
+  WebhookSource,
+} from "../config/webhook";
+import { DEFAULT_FUELS, FuelDefinition, FuelId } from "../config/fuels";
+import { imageKey, removeImageBlob, removeImagesForPeriod } from "./imagesDB";
+import { parsePrice } from "./priceValidation";
+import { rememberPhotoHashes } from "./photoHash";
+import { format } from "date-fns";
+import { CURRENT_SCHEMA_VERSION, migrateAppState, recoverAppState, rememberLastGoodState } from "./stateMigrations";
+import { DEFAULT_PAYMENT_MODES, PaymentModeDefinition, PaymentModeId } from "../config/paymentModes";
+import { DEFAULT_PRICE_CHANGE_THRESHOLD } from "../config/priceRules";
+import { StationLocation } from "../config/geofence";
+import { DEFAULT_PHOTO_VALIDATION, PhotoValidationPolicy } from "../config/photoValidation";
+import { SubmissionWindow } from "../config/submissionWindows";
+import { isValidWindow } from "./submissionWindow";
+import { CarryOverPolicy, DEFAULT_PERIODS, PeriodDefinition, PeriodKey } from "../config/periods";
 
-export type PriceFields = {
-  etanol: string;
-  gasolinaComum: string;
-  gasolinaAditivada: string;
-  dieselS10: string;
-};
+// Preços por combustível do catálogo (ver config/fuels.ts)
+export type PriceFields = Record<FuelId, string>;
 
 export type StationData = {
-  photoBase64?: string; // stored without data:image/... prefix
+  photoBase64?: string; // without data:image/... prefix; kept only in memory, never in localStorage (see sessionPhotos)
   noChange: boolean;
-  prices: {
-    vista: PriceFields;
-    prazo: PriceFields;
-  };
+  prices: Record<PaymentModeId, PriceFields>; // por forma de pagamento (ver config/paymentModes.ts)
+  carriedOver?: CarriedOver; // valores copiados do período anterior ainda não confirmados
   metadata?: {
     dateTime?: string; // ISO string
     make?: string;
@@ -25,92 +40,363 @@ export type StationData = {
     };
     validationStatus?: 'validated' | 'invalid' | 'warning';
     validationReason?: string;
+    deviceLocation?: DeviceLocation; // posição do aparelho no momento da captura (separada do GPS do EXIF)
+    photoHash?: string; // hash perceptual da foto comprimida (lib/photoHash.ts)
+    duplicateReason?: string; // foto repetida de outro posto ou de um envio anterior
+    tamperScore?: number; // pontuação dos indícios de edição (lib/tamperScore.ts)
+    tamperReasons?: string[];
+    distanceMeters?: number; // distância da foto (GPS do EXIF) às coordenadas cadastradas do posto
+    geofenceRadius?: number; // raio cadastrado no momento da validação
+    ocr?: OcrReading; // leitura automática da placa, quando aplicada
   };
 };
 
-export type PeriodKey = "manha" | "tarde";
+export type DeviceLocation = {
+  latitude: number;
+  longitude: number;
+  accuracy: number; // metros
+  timestamp: string; // ISO string da leitura
+};
+
+// Valores lidos da placa pelo OCR (lib/ocr.ts) e o que o usuário confirmou em cada campo
+export type OcrReading = {
+  confidence: number; // média, 0..100
+  fields: Array<{
+    mode: PaymentModeId;
+    fuel: FuelId;
+    recognized: string; // "5,89"
+    confidence: number; // 0..100
+    accepted: string; // valor aplicado ao formulário (pode ter sido corrigido)
+  }>;
+};
+
+// Campos copiados de outro período após o envio dele; cada um sai daqui quando o usuário
+// confirma ou altera o valor (enquanto houver algum, o envio é bloqueado)
+export type CarriedOver = {
+  from: PeriodKey;
+  prices: Partial<Record<PaymentModeId, Partial<Record<FuelId, true>>>>;
+};
+
+// Períodos do dia definidos em config/periods.ts (ex.: "manha", "tarde")
+export type { PeriodKey };
+
+// Último valor enviado de cada forma de pagamento × combustível de um posto (base da variação dia a dia)
+export type LastSentPrices = {
+  sentAt: string; // ISO string do envio que atualizou o último valor
+  period: PeriodKey;
+  prices: Partial<Record<PaymentModeId, Partial<Record<FuelId, number>>>>;
+};
+
+// Preços de um período como foram enviados (guardados na fila junto com o payload)
+export type SentStations = Record<
+  string,
+  Pick<StationData, "noChange" | "prices"> & { photoHash?: string } // hash da foto enviada (lib/photoHash.ts)
+>;
+
+// Envio entregue pela outbox
+export type DeliveredSubmission = {
+  sentAt: string; // ISO string da entrega
+  queuedAt: string; // ISO string de quando o usuário enviou
+  stations?: SentStations; // ausente em itens enfileirados por versões antigas
+};
 
 export type AppState = {
+  schemaVersion: number; // ver lib/stateMigrations.ts
   config: {
-    concorrentesCount: number;
-    webhookUrl?: string;
+    competitors: string[]; // ids estáveis dos concorrentes, na ordem de exibição ("Concorrente N" = posição)
+    ownStationsCount: number; // Postos Natureza cobertos por este aparelho (1 a MAX_OWN_STATIONS)
+    webhookUrl?: string; // URL principal salva neste aparelho (ver resolveWebhook)
+    primaryWebhook: WebhookOptions; // transporte etc. do webhook principal
+    secondaryWebhooks: WebhookEndpoint[]; // recebem o mesmo envio que o principal
+    fuels: FuelDefinition[];
+    paymentModes: PaymentModeDefinition[];
+    priceChangeThreshold: number; // % de variação em relação ao último envio que pede confirmação
+    stationLocations: Record<string, StationLocation>; // coordenadas cadastradas, por id do posto
+    captureDeviceLocation: boolean; // pede a localização do aparelho a cada foto da câmera
+    photoValidation: PhotoValidationPolicy; // regras por tipo de posto × origem da foto
+    periods: PeriodDefinition[]; // catálogo de períodos (só os habilitados têm aba e dados)
+    submissionWindows: Record<PeriodKey, SubmissionWindow>; // horário de envio de cada período
+    carryOver: Record<PeriodKey, CarryOverPolicy>; // o que cada período passa ao próximo após o envio
   };
   meta: {
     lastEdited?: string;
     lastSent?: Partial<Record<PeriodKey, string>>;
-    names: Record<string, string>; // reference, competitor_1..n
+    names: Record<string, string>; // reference, reference_2..3, competitor_1..n
+    lastSentPrices?: Record<string, LastSentPrices>; // por id do posto
   };
-  periods: Record<PeriodKey, { stations: Record<string, StationData> }>;
+  periods: Record<PeriodKey, { stations: Record<string, StationData> }>; // um por período habilitado
 };
 
 const STORAGE_KEY = "price_registry_app_state";
 
-export const stationIdForIndex = (index: number) =>
-  index === 0 ? "reference" : `competitor_${index}`;
+// As fotos ficam só no IndexedDB (lib/imagesDB.ts): o base64 nunca vai para o localStorage, que tem
+// cota de poucos MB. Esta cópia em memória o devolve ao estado lido até a página ser recarregada;
+// depois disso o ImageCapture e a validação do envio o buscam de novo no IndexedDB.
+const sessionPhotos = new Map<string, string>(); // imageKey(período, posto) -> base64
 
-export const defaultNameForIndex = (index: number) =>
-  index === 0 ? "Posto Natureza: " : `Posto Concorrente ${index}: `;
+const rememberSessionPhotos = (state: AppState) => {
+  const present = new Set<string>();
+  Object.entries(state.periods).forEach(([p, bucket]) =>
+    Object.entries(bucket.stations).forEach(([id, st]) => {
+      const key = imageKey(p, id);
+      present.add(key);
+      if (st.photoBase64) sessionPhotos.set(key, st.photoBase64);
+      else if (st.photoBase64 === "") sessionPhotos.delete(key); // foto removida ou período limpo
+    })
+  );
+  // Postos e períodos que deixaram de existir
+  [...sessionPhotos.keys()].filter((key) => !present.has(key)).forEach((key) => sessionPhotos.delete(key));
+};
 
-const emptyPriceFields = (): PriceFields => ({
-  etanol: "",
-  gasolinaComum: "",
-  gasolinaAditivada: "",
-  dieselS10: "",
-});
+const withSessionPhotos = (state: AppState): AppState => {
+  Object.entries(state.periods).forEach(([p, bucket]) =>
+    Object.entries(bucket.stations).forEach(([id, st]) => {
+      const photo = sessionPhotos.get(imageKey(p, id));
+      if (photo && !st.photoBase64) st.photoBase64 = photo;
+    })
+  );
+  return state;
+};
+
+// O JSON persistido, sem as fotos
+const serializeAppState = (state: AppState) =>
+  JSON.stringify({
+    ...state,
+    periods: Object.fromEntries(
+      Object.entries(state.periods).map(([p, bucket]) => [
+        p,
+        {
+          ...bucket,
+          stations: Object.fromEntries(
+            Object.entries(bucket.stations).map(([id, { photoBase64: _photo, ...rest }]) => [id, rest])
+          ),
+        },
+      ])
+    ),
+  });
+
+export const MAX_OWN_STATIONS = 3;
+
+// Posto Natureza 1 mantém o id legado "reference"; os demais são "reference_2" e "reference_3"
+export const ownStationId = (n: number) => (n === 1 ? "reference" : `reference_${n}`);
+
+// Ids dos concorrentes são estáveis: os legados "competitor_1..n" são mantidos e os novos usam UUID
+export const competitorStationId = (n: number) => `competitor_${n}`;
+
+export const newCompetitorId = () => `competitor_${crypto.randomUUID()}`;
+
+export const isOwnStationId = (id: string) => /^reference(_\d+)?$/.test(id);
+
+// Número do posto (1..n) dentro do seu grupo: pelo id nos próprios, pela posição atual nos concorrentes
+export const stationNumber = (state: AppState, id: string): number => {
+  if (isOwnStationId(id)) {
+    const m = id.match(/_(\d+)$/);
+    return m ? Number(m[1]) : 1;
+  }
+  return state.config.competitors.indexOf(id) + 1;
+};
+
+// Prefixo fixo do nome exibido no card (ex.: "Posto Natureza 2: ", "Posto Concorrente 3: ")
+export const defaultNameForId = (state: AppState, id: string) => {
+  const n = stationNumber(state, id);
+  if (isOwnStationId(id)) {
+    return n === 1 ? "Posto Natureza: " : `Posto Natureza ${n}: `;
+  }
+  return `Posto Concorrente ${n}: `;
+};
+
+// Catálogo salvo mesclado com o padrão: do salvo só vale o "enabled" (escolha do aparelho);
+// rótulos, chaves e limites vêm sempre do padrão. Itens personalizados são mantidos.
+const mergeCatalogue = <T extends { id: string; order: number; enabled: boolean }>(defaults: T[], stored?: T[]): T[] => {
+  const byId = new Map((stored || []).map((item) => [item.id, item]));
+  const merged = defaults.map((item) => ({ ...item, enabled: byId.get(item.id)?.enabled ?? item.enabled }));
+  (stored || []).forEach((item) => {
+    if (!defaults.some((d) => d.id === item.id)) merged.push(item);
+  });
+  return merged.sort((a, b) => a.order - b.order);
+};
+
+// Política salva sobre a padrão, regra a regra (campos novos dos padrões entram automaticamente)
+const mergePhotoValidation = (stored?: Partial<PhotoValidationPolicy>): PhotoValidationPolicy => {
+  const policy = structuredClone(DEFAULT_PHOTO_VALIDATION);
+  (Object.keys(policy) as Array<keyof PhotoValidationPolicy>).forEach((kind) => {
+    (Object.keys(policy[kind]) as Array<keyof PhotoValidationPolicy[typeof kind]>).forEach((source) => {
+      policy[kind][source] = { ...policy[kind][source], ...(stored?.[kind]?.[source] || {}) };
+    });
+  });
+  return policy;
+};
+
+// Horário salvo de cada período sobre o padrão do catálogo
+const mergeSubmissionWindows = (
+  periods: PeriodDefinition[],
+  stored?: Partial<Record<PeriodKey, SubmissionWindow>>
+): Record<PeriodKey, SubmissionWindow> =>
+  Object.fromEntries(
+    periods.map((p) => {
+      const merged = { ...p.window, ...(stored?.[p.id] || {}) };
+      // Um fechamento antes da abertura deixaria o período sempre fechado (e, com bloqueio, sem envio)
+      return [p.id, isValidWindow(merged) ? merged : p.window];
+    })
+  );
+
+const mergeCarryOver = (
+  periods: PeriodDefinition[],
+  stored?: Partial<Record<PeriodKey, CarryOverPolicy>>
+): Record<PeriodKey, CarryOverPolicy> =>
+  Object.fromEntries(periods.map((p) => [p.id, { ...p.carryOver, ...(stored?.[p.id] || {}) }]));
+
+export const getEnabledFuels = (state: AppState) =>
+  state.config.fuels.filter((f) => f.enabled);
+
+export const getEnabledPaymentModes = (state: AppState) =>
+  state.config.paymentModes.filter((m) => m.enabled);
+
+export const getEnabledPeriods = (state: AppState) =>
+  state.config.periods.filter((p) => p.enabled);
+
+// Rótulo do período; chaves que não estão no catálogo (ex.: histórico antigo) aparecem como estão
+export const periodLabel = (state: AppState, period: PeriodKey) =>
+  state.config.periods.find((p) => p.id === period)?.label ?? period;
+
+// Próximo período habilitado do dia, se houver (destino da cópia de preços após o envio)
+export const nextPeriod = (state: AppState, period: PeriodKey): PeriodDefinition | undefined => {
+  const enabled = getEnabledPeriods(state);
+  const i = enabled.findIndex((p) => p.id === period);
+  return i >= 0 ? enabled[i + 1] : undefined;
+};
+
+type Catalogues = { fuels: FuelDefinition[]; paymentModes: PaymentModeDefinition[] };
+
+const DEFAULT_CATALOGUES: Catalogues = { fuels: DEFAULT_FUELS, paymentModes: DEFAULT_PAYMENT_MODES };
 
-const emptyStation = (): StationData => ({
+const emptyPriceFields = (fuels: FuelDefinition[]): PriceFields =>
+  Object.fromEntries(fuels.map((f) => [f.id, ""]));
+
+const emptyPrices = ({ fuels, paymentModes }: Catalogues): StationData["prices"] =>
+  Object.fromEntries(paymentModes.map((m) => [m.id, emptyPriceFields(fuels)]));
+
+const emptyStation = (catalogues: Catalogues = DEFAULT_CATALOGUES): StationData => ({
   photoBase64: "",
   noChange: false,
-  prices: { vista: emptyPriceFields(), prazo: emptyPriceFields() },
+  prices: emptyPrices(catalogues),
 });
 
-export const buildDefaultState = (concorrentes = 1): AppState => {
-  const names: Record<string, string> = {};
-  const stations: Record<string, StationData> = {};
-  for (let i = 0; i <= concorrentes; i++) {
-    const id = stationIdForIndex(i);
-    names[id] = defaultNameForIndex(i);
-    stations[id] = emptyStation();
-  }
-  const base = { stations };
-  return {
-    config: { concorrentesCount: concorrentes },
-    meta: { names, lastEdited: new Date().toISOString() },
-    periods: { manha: structuredClone(base), tarde: structuredClone(base) },
+// Garante um campo (vazio) para cada forma de pagamento × combustível, preservando os valores existentes
+const withAllPrices = (station: StationData, { fuels, paymentModes }: Catalogues): StationData => ({
+  ...station,
+  prices: Object.fromEntries(
+    paymentModes.map((m) => [m.id, { ...emptyPriceFields(fuels), ...(station.prices?.[m.id] || {}) }])
+  ),
+});
+
+export const buildDefaultState = (
+  competitors: string[] = [competitorStationId(1)],
+  ownStations = 1
+): AppState => {
+  const state: AppState = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    config: {
+      competitors: [...competitors],
+      ownStationsCount: ownStations,
+      primaryWebhook: { ...DEFAULT_WEBHOOK_OPTIONS },
+      secondaryWebhooks: [],
+      fuels: mergeCatalogue(DEFAULT_FUELS),
+      paymentModes: mergeCatalogue(DEFAULT_PAYMENT_MODES),
+      priceChangeThreshold: DEFAULT_PRICE_CHANGE_THRESHOLD,
+      stationLocations: {},
+      captureDeviceLocation: true,
+      photoValidation: mergePhotoValidation(),
+      periods: mergeCatalogue(DEFAULT_PERIODS),
+      submissionWindows: mergeSubmissionWindows(DEFAULT_PERIODS),
+      carryOver: mergeCarryOver(DEFAULT_PERIODS),
+    },
+    meta: { names: {}, lastEdited: new Date().toISOString() },
+    periods: {},
   };
+  syncStations(state);
+  return state;
 };
 
-export const readAppState = (): AppState => {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return buildDefaultState();
-    const parsed = JSON.parse(raw) as AppState;
-
-    // Ensure structure integrity and merge defaults when upgrading schema
-    const concorrentes = parsed?.config?.concorrentesCount ?? 1;
-    const safe = buildDefaultState(concorrentes);
-
-    // Merge meta names
-    safe.meta = {
-      ...safe.meta,
-      ...parsed.meta,
-      names: { ...safe.meta.names, ...(parsed.meta?.names || {}) },
-    };
+// Completa o estado (já migrado para a versão atual) com os padrões e catálogos vigentes
+const normalizeAppState = (parsed: AppState): AppState => {
+  const safe = buildDefaultState(parsed.config?.competitors, parsed.config?.ownStationsCount);
+
+  // Merge meta names
+  safe.meta = {
+    ...safe.meta,
+    ...parsed.meta,
+    names: { ...safe.meta.names, ...(parsed.meta?.names || {}) },
+  };
 
-    // Merge periods data
-    (Object.keys(safe.periods) as PeriodKey[]).forEach((p) => {
-      const incoming = parsed.periods?.[p]?.stations || {};
-      safe.periods[p].stations = { ...safe.periods[p].stations, ...incoming };
+  // Merge catalogues (itens novos dos padrões entram automaticamente)
+  safe.config.fuels = mergeCatalogue(DEFAULT_FUELS, parsed.config?.fuels);
+  safe.config.paymentModes = mergeCatalogue(DEFAULT_PAYMENT_MODES, parsed.config?.paymentModes);
+  safe.config.periods = mergeCatalogue(DEFAULT_PERIODS, parsed.config?.periods);
+  if (!safe.config.periods.some((p) => p.enabled)) safe.config.periods = mergeCatalogue(DEFAULT_PERIODS);
+  syncStations(safe);
+
+  // Merge periods data
+  (Object.keys(safe.periods) as PeriodKey[]).forEach((p) => {
+    const incoming = parsed.periods?.[p]?.stations || {};
+    safe.periods[p].stations = { ...safe.periods[p].stations, ...incoming };
+    Object.keys(safe.periods[p].stations).forEach((id) => {
+      safe.periods[p].stations[id] = withAllPrices(safe.periods[p].stations[id], safe.config);
     });
+  });
+
+  // Keep webhookUrl if present
+  safe.config.webhookUrl = parsed.config?.webhookUrl;
+  safe.config.primaryWebhook = { ...DEFAULT_WEBHOOK_OPTIONS, ...(parsed.config?.primaryWebhook || {}) };
+  safe.config.secondaryWebhooks = Array.isArray(parsed.config?.secondaryWebhooks)
+    ? parsed.config.secondaryWebhooks.map((w) => ({ ...DEFAULT_WEBHOOK_OPTIONS, ...w }))
+    : [];
+  if (typeof parsed.config?.priceChangeThreshold === "number") {
+    safe.config.priceChangeThreshold = parsed.config.priceChangeThreshold;
+  }
+  safe.config.photoValidation = mergePhotoValidation(parsed.config?.photoValidation);
+  safe.config.submissionWindows = mergeSubmissionWindows(safe.config.periods, parsed.config?.submissionWindows);
+  safe.config.carryOver = mergeCarryOver(safe.config.periods, parsed.config?.carryOver);
+  if (typeof parsed.config?.captureDeviceLocation === "boolean") {
+    safe.config.captureDeviceLocation = parsed.config.captureDeviceLocation;
+  }
+  safe.config.stationLocations = Object.fromEntries(
+    Object.entries(parsed.config?.stationLocations || {}).filter(([id]) => getVisibleStationIds(safe).includes(id))
+  );
+
+  return safe;
+};
 
-    // Keep webhookUrl if present
-    safe.config.webhookUrl = parsed.config?.webhookUrl;
+export const readAppState = (): AppState => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return buildDefaultState();
 
-    return safe;
+  try {
+    const { state, migrated } = migrateAppState(STORAGE_KEY, JSON.parse(raw));
+    const safe = normalizeAppState(state as AppState);
+    // Persiste a migração uma única vez (sem disparar eventos: pode estar sendo lido durante o render)
+    if (migrated) {
+      rememberSessionPhotos(safe);
+      localStorage.setItem(STORAGE_KEY, serializeAppState(safe));
+    }
+    return withSessionPhotos(safe);
   } catch (e) {
-    console.error("[localStorage] Failed to parse app state, resetting.", e);
-    return buildDefaultState();
+    console.error("[localStorage] Failed to read app state, trying to recover from backup.", e);
   }
+
+  // Recuperação: o conteúdo ilegível é preservado e o backup mais recente é restaurado
+  const backup = recoverAppState(STORAGE_KEY, raw);
+  if (backup) {
+    try {
+      const safe = normalizeAppState(migrateAppState(STORAGE_KEY, backup).state as AppState);
+      localStorage.setItem(STORAGE_KEY, serializeAppState(safe));
+      return withSessionPhotos(safe);
+    } catch (e) {
+      console.error("[localStorage] Backup is unusable as well.", e);
+    }
+  }
+  console.error("[localStorage] No usable backup, starting from defaults.");
+  return buildDefaultState();
 };
 
 export const saveAppState = (state: AppState) => {
@@ -118,32 +404,72 @@ export const saveAppState = (state: AppState) => {
     ...state,
     meta: { ...state.meta, lastEdited: new Date().toISOString() },
   };
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  rememberSessionPhotos(next);
+  localStorage.setItem(STORAGE_KEY, serializeAppState(next));
+  rememberLastGoodState(STORAGE_KEY, next);
   // Dispatch a custom event to sync within same tab components
   window.dispatchEvent(new CustomEvent("app-state-updated"));
 };
 
-export const setConcorrentesCount = (count: number) => {
+// Cria nomes/estações (e períodos) que faltam, remove os que deixaram de ser exibidos
+// e renumera o prefixo "Posto Concorrente N: " conforme a ordem atual
+function syncStations(state: AppState) {
+  const periods = getEnabledPeriods(state).map((p) => p.id);
+  periods.forEach((p) => {
+    if (!state.periods[p]) state.periods[p] = { stations: {} };
+  });
+  Object.keys(state.periods).forEach((p) => {
+    if (!periods.includes(p)) delete state.periods[p];
+  });
+
+  const visible = getVisibleStationIds(state);
+  visible.forEach((id) => {
+    const prefix = defaultNameForId(state, id);
+    const name = state.meta.names[id];
+    if (!name) state.meta.names[id] = prefix;
+    else if (!isOwnStationId(id)) state.meta.names[id] = name.replace(/^Posto Concorrente \d+: /, prefix);
+    (Object.keys(state.periods) as PeriodKey[]).forEach((p) => {
+      if (!state.periods[p].stations[id]) state.periods[p].stations[id] = emptyStation(state.config);
+    });
+  });
+  Object.keys(state.meta.names).forEach((id) => {
+    if (!visible.includes(id)) delete state.meta.names[id];
+  });
+  Object.keys(state.meta.lastSentPrices || {}).forEach((id) => {
+    if (!visible.includes(id)) delete state.meta.lastSentPrices![id];
+  });
+  Object.keys(state.config.stationLocations).forEach((id) => {
+    if (!visible.includes(id)) delete state.config.stationLocations[id];
+  });
+  (Object.keys(state.periods) as PeriodKey[]).forEach((p) => {
+    Object.keys(state.periods[p].stations).forEach((id) => {
+      if (!visible.includes(id)) delete state.periods[p].stations[id];
+    });
+  });
+}
+
+// Substitui a lista de concorrentes (adicionar, remover, reordenar) preservando os dados de cada um
+export const setCompetitors = (ids: string[]) => {
   const state = readAppState();
-  const current = state.config.concorrentesCount;
-  if (count === current) return state;
+  const removed = state.config.competitors.filter((id) => !ids.includes(id));
 
-  // Adjust names and stations collections
-  for (let i = 0; i <= count; i++) {
-    const id = stationIdForIndex(i);
-    if (!state.meta.names[id]) state.meta.names[id] = defaultNameForIndex(i);
-    if (!state.periods.manha.stations[id]) state.periods.manha.stations[id] = emptyStation();
-    if (!state.periods.tarde.stations[id]) state.periods.tarde.stations[id] = emptyStation();
-  }
-  // Remove excess
-  for (let i = count + 1; i <= 20; i++) {
-    const id = stationIdForIndex(i);
-    delete state.meta.names[id];
-    delete state.periods.manha.stations[id];
-    delete state.periods.tarde.stations[id];
-  }
+  state.config.competitors = [...ids];
+  syncStations(state);
+  saveAppState(state);
+
+  (Object.keys(state.periods) as PeriodKey[]).forEach((p) => {
+    removed.forEach((id) => void removeImageBlob(imageKey(p, id)));
+  });
+  return state;
+};
 
-  state.config.concorrentesCount = count;
+export const setOwnStationsCount = (count: number) => {
+  const state = readAppState();
+  const next = Math.min(Math.max(1, count), MAX_OWN_STATIONS);
+  if (next === state.config.ownStationsCount) return state;
+
+  state.config.ownStationsCount = next;
+  syncStations(state);
   saveAppState(state);
   return state;
 };
@@ -152,12 +478,183 @@ export const clearPeriodData = (period: PeriodKey) => {
   const state = readAppState();
   const ids = Object.keys(state.periods[period].stations);
   ids.forEach((id) => {
-    state.periods[period].stations[id] = emptyStation();
+    state.periods[period].stations[id] = emptyStation(state.config);
   });
   saveAppState(state);
   return state;
 };
 
+// Impressão digital do formulário de um período (sem o base64), comparada pela outbox na entrega
+export const periodFingerprint = (state: AppState, period: PeriodKey): string => {
+  const stations = state.periods[period]?.stations || {};
+  const text = JSON.stringify(
+    Object.keys(stations)
+      .sort()
+      .map((sid) => {
+        const { photoBase64: _photo, ...rest } = stations[sid];
+        return [sid, rest];
+      })
+  );
+  // FNV-1a de 32 bits: basta para detectar alterações, não é usado como segurança
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+// Cópia dos preços do período para guardar junto com o envio na fila
+export const sentStations = (state: AppState, period: PeriodKey): SentStations =>
+  Object.fromEntries(
+    Object.entries(state.periods[period]?.stations || {}).map(([sid, st]) => [
+      sid,
+      { noChange: st.noChange, prices: structuredClone(st.prices), photoHash: st.metadata?.photoHash },
+    ])
+  );
+
+// Hashes das fotos enviadas (da cópia guardada na fila), para detectar a mesma foto em envios futuros
+const rememberSentPhotos = (state: AppState, period: PeriodKey, { queuedAt, stations }: DeliveredSubmission) =>
+  rememberPhotoHashes(
+    Object.entries(stations || {})
+      .filter(([, st]) => st.photoHash)
+      .map(([sid, st]) => ({
+        hash: st.photoHash!,
+        stationId: sid,
+        stationName: state.meta.names[sid] || sid,
+        period,
+        day: format(new Date(queuedAt), "yyyy-MM-dd"),
+      }))
+  );
+
+// Só registra o envio (horário, preços e fotos enviados), sem mexer no formulário
+export const recordPeriodSent = (period: PeriodKey, delivered: DeliveredSubmission) => {
+  const state = readAppState();
+  state.meta.lastSent = { ...(state.meta.lastSent || {}), [period]: delivered.sentAt };
+  recordLastSentPrices(state, period, delivered);
+  rememberSentPhotos(state, period, delivered);
+  saveAppState(state);
+  return state;
+};
+
+// Pós-envio: registra o horário, copia os preços para o próximo período e limpa fotos/flags do período
+export const markPeriodSent = (period: PeriodKey, delivered: DeliveredSubmission) => {
+  const state = readAppState();
+  // O período pode ter sido desabilitado enquanto o envio aguardava na fila
+  if (!state.periods[period]) return recordPeriodSent(period, delivered);
+  const { sentAt } = delivered;
+  state.meta.lastSent = { ...(state.meta.lastSent || {}), [period]: sentAt };
+  recordLastSentPrices(state, period, delivered);
+  rememberSentPhotos(state, period, delivered);
+
+  carryOverToNextPeriod(state, period);
+
+  // Clear photos, metadata and reset flags while keeping price values
+  Object.keys(state.periods[period].stations).forEach((sid) => {
+    const st = state.periods[period].stations[sid];
+    state.periods[period].stations[sid] = {
+      ...st,
+      photoBase64: "",
+      metadata: undefined,
+      noChange: false,
+      carriedOver: undefined,
+    };
+  });
+
+  saveAppState(state);
+  return state;
+};
+
+// Tira a marca de "copiado" de um campo, quando o usuário confirma ou altera o valor
+export const confirmCarriedPrice = (station: StationData, mode: PaymentModeId, fuel: FuelId): StationData => {
+  if (!station.carriedOver?.prices[mode]?.[fuel]) return station;
+  const prices = structuredClone(station.carriedOver.prices);
+  delete prices[mode]![fuel];
+  if (Object.keys(prices[mode]!).length === 0) delete prices[mode];
+  return {
+    ...station,
+    carriedOver: Object.keys(prices).length > 0 ? { ...station.carriedOver, prices } : undefined,
+  };
+};
+
+// O usuário já preencheu o posto (valores copiados e ainda não confirmados não contam)
+const hasUserInput = (st: StationData) =>
+  st.noChange ||
+  Object.entries(st.prices).some(([mode, fields]) =>
+    Object.entries(fields).some(([fuel, value]) => value && !st.carriedOver?.prices[mode]?.[fuel])
+  );
+
+// Passa ao próximo período habilitado o que a política de carry-over do período enviado define.
+// A entrega pode chegar horas depois do envio: o que já foi digitado no período seguinte é mantido.
+const carryOverToNextPeriod = (state: AppState, period: PeriodKey) => {
+  const next = nextPeriod(state, period);
+  const policy = state.config.carryOver[period];
+  if (!next || !policy || policy.copy === "nothing") return;
+
+  Object.keys(state.periods[period].stations).forEach((sid) => {
+    const sentStation = state.periods[period].stations[sid];
+    const nextStation = state.periods[next.id].stations[sid];
+    // Postos já preenchidos no período seguinte ficam como estão, em qualquer política
+    if (!sentStation || !nextStation || hasUserInput(nextStation)) return;
+    const noChange = policy.keepNoChange ? sentStation.noChange : false;
+
+    // Só os nomes: os nomes já são comuns a todos os períodos, então os preços não preenchidos
+    // (inclusive os copiados de um envio anterior e não confirmados) recomeçam em branco
+    if (policy.copy === "names") {
+      state.periods[next.id].stations[sid] = {
+        ...nextStation,
+        prices: emptyPrices(state.config),
+        carriedOver: undefined,
+        noChange,
+      };
+      return;
+    }
+
+    // Preços copiados ficam marcados até serem confirmados ou alterados no período seguinte
+    const carried: CarriedOver["prices"] = {};
+    Object.entries(sentStation.prices).forEach(([mode, fields]) => {
+      Object.entries(fields).forEach(([fuel, value]) => {
+        if (value) carried[mode] = { ...(carried[mode] || {}), [fuel]: true };
+      });
+    });
+    state.periods[next.id].stations[sid] = {
+      ...nextStation,
+      prices: structuredClone(sentStation.prices),
+      carriedOver: Object.keys(carried).length > 0 ? { from: period, prices: carried } : undefined,
+      noChange,
+    };
+  });
+};
+
+// Guarda, campo a campo, os preços válidos enviados (os da fila, não os do formulário atual);
+// campos vazios, "Sem dados" e postos marcados como "sem alteração" mantêm o valor anterior,
+// assim como postos cujo último valor veio de um envio feito depois deste
+const recordLastSentPrices = (
+  state: AppState,
+  period: PeriodKey,
+  { sentAt, queuedAt, stations }: DeliveredSubmission
+) => {
+  if (!stations) return;
+  const all = { ...(state.meta.lastSentPrices || {}) };
+  Object.entries(stations).forEach(([sid, st]) => {
+    if (st.noChange) return;
+    if (all[sid] && all[sid].sentAt > queuedAt) return;
+    const prev = all[sid]?.prices || {};
+    const prices: LastSentPrices["prices"] = structuredClone(prev);
+    let touched = false;
+    Object.entries(st.prices).forEach(([mode, fields]) => {
+      Object.entries(fields).forEach(([fuel, raw]) => {
+        const value = parsePrice(raw);
+        if (value === undefined) return;
+        prices[mode] = { ...(prices[mode] || {}), [fuel]: value };
+        touched = true;
+      });
+    });
+    if (touched) all[sid] = { sentAt, period, prices };
+  });
+  state.meta.lastSentPrices = all;
+};
+
 export const updateStationName = (id: string, name: string) => {
   const state = readAppState();
   state.meta.names[id] = name;
@@ -165,6 +662,80 @@ export const updateStationName = (id: string, name: string) => {
   return state;
 };
 
+export const setFuelsEnabled = (enabled: Record<FuelId, boolean>) => {
+  const state = readAppState();
+  state.config.fuels = state.config.fuels.map((f) => ({ ...f, enabled: enabled[f.id] ?? f.enabled }));
+  saveAppState(state);
+  return state;
+};
+
+export const setPaymentModesEnabled = (enabled: Record<PaymentModeId, boolean>) => {
+  const state = readAppState();
+  state.config.paymentModes = state.config.paymentModes.map((m) => ({ ...m, enabled: enabled[m.id] ?? m.enabled }));
+  saveAppState(state);
+  return state;
+};
+
+export const setPriceChangeThreshold = (percent: number) => {
+  const state = readAppState();
+  state.config.priceChangeThreshold = percent;
+  saveAppState(state);
+  return state;
+};
+
+// Substitui as coordenadas cadastradas (postos sem entrada ficam sem geofence)
+export const setStationLocations = (locations: Record<string, StationLocation>) => {
+  const state = readAppState();
+  state.config.stationLocations = { ...locations };
+  syncStations(state);
+  saveAppState(state);
+  return state;
+};
+
+export const setPhotoValidation = (policy: PhotoValidationPolicy) => {
+  const state = readAppState();
+  state.config.photoValidation = mergePhotoValidation(policy);
+  saveAppState(state);
+  return state;
+};
+
+export const setSubmissionWindows = (windows: Record<PeriodKey, SubmissionWindow>) => {
+  const state = readAppState();
+  state.config.submissionWindows = mergeSubmissionWindows(state.config.periods, windows);
+  saveAppState(state);
+  return state;
+};
+
+export const setCarryOver = (policies: Record<PeriodKey, CarryOverPolicy>) => {
+  const state = readAppState();
+  state.config.carryOver = mergeCarryOver(state.config.periods, policies);
+  saveAppState(state);
+  return state;
+};
+
+// Habilita/desabilita períodos; os dados e fotos dos que saem são descartados
+export const setPeriodsEnabled = (enabled: Record<PeriodKey, boolean>) => {
+  const state = readAppState();
+  const next = state.config.periods.map((p) => ({ ...p, enabled: enabled[p.id] ?? p.enabled }));
+  if (!next.some((p) => p.enabled)) return state;
+  next
+    .filter((p) => !p.enabled && state.periods[p.id])
+    .forEach((p) => {
+      removeImagesForPeriod(p.id).catch((e) => console.warn("[localStorage] Could not remove period images", e));
+    });
+  state.config.periods = next;
+  syncStations(state);
+  saveAppState(state);
+  return state;
+};
+
+export const setCaptureDeviceLocation = (enabled: boolean) => {
+  const state = readAppState();
+  state.config.captureDeviceLocation = enabled;
+  saveAppState(state);
+  return state;
+};
+
 export const updateWebhookUrl = (url?: string) => {
   const state = readAppState();
   state.config.webhookUrl = url;
@@ -172,38 +743,66 @@ export const updateWebhookUrl = (url?: string) => {
   return state;
 };
 
+export const setPrimaryWebhookOptions = (options: WebhookOptions) => {
+  const state = readAppState();
+  state.config.primaryWebhook = { ...DEFAULT_WEBHOOK_OPTIONS, ...options };
+  saveAppState(state);
+  return state;
+};
+
+export const setSecondaryWebhooks = (endpoints: WebhookEndpoint[]) => {
+  const state = readAppState();
+  state.config.secondaryWebhooks = endpoints.filter((w) => w.url.trim()).map((w) => ({ ...w, url: w.url.trim() }));
+  saveAppState(state);
+  return state;
+};
+
+// Postos próprios primeiro, depois os concorrentes
 export const getVisibleStationIds = (state: AppState) => {
   const ids: string[] = [];
-  for (let i = 0; i <= state.config.concorrentesCount; i++) {
-    ids.push(stationIdForIndex(i));
+  for (let i = 1; i <= state.config.ownStationsCount; i++) {
+    ids.push(ownStationId(i));
   }
+  ids.push(...state.config.competitors);
   return ids;
 };
 
-export const getWebhookUrl = (): string | undefined => {
-  // Fallback priorities: internal config -> env -> localStorage -> default constant
-  
-  // 1. Internal configuration (highest priority)
+export type ResolvedWebhook = { url: string; source: WebhookSource };
+
+// URL principal efetiva e de onde ela vem (ordem descrita em config/webhook.ts)
+export const resolveWebhook = (stored = readAppState().config.webhookUrl): ResolvedWebhook => {
+  // 1. URL salva neste aparelho
+  if (stored) return { url: stored, source: "stored" };
+
+  // 2. Configuração interna do projeto
   if (INTERNAL_WEBHOOK_URL && typeof INTERNAL_WEBHOOK_URL === "string") {
-    return INTERNAL_WEBHOOK_URL;
+    return { url: INTERNAL_WEBHOOK_URL, source: "internal" };
   }
 
-  // 2. Environment variables
+  // 3. Environment variables
   // Observação: em Lovable, variáveis .env não são suportadas; mantemos por compatibilidade
   const envUrl =
     (import.meta as any).env?.NEXT_PUBLIC_WEBHOOK_URL ||
     (import.meta as any).env?.REACT_APP_WEBHOOK_URL ||
     (import.meta as any).env?.VITE_WEBHOOK_URL;
-  if (envUrl && typeof envUrl === "string") return envUrl;
-
-  const stored = readAppState().config.webhookUrl;
-  if (stored) return stored;
+  if (envUrl && typeof envUrl === "string") return { url: envUrl, source: "env" };
 
-  // Default do projeto (n8n)
-  const DEFAULT_WEBHOOK_URL =
-    "https://criadordigital-n8n-editor.xpr5o6.easypanel.host/webhook/SiteFormulario";
-  return DEFAULT_WEBHOOK_URL;
+  // 4. Default do projeto (n8n)
+  return { url: DEFAULT_WEBHOOK_URL, source: "default" };
 };
 
+export const getWebhookUrl = (): string | undefined => resolveWebhook().url;
+
+// Endpoints que recebem cada envio: o principal primeiro, depois os secundários habilitados
+export const getWebhookEndpoints = (state: AppState = readAppState()): WebhookEndpoint[] => [
+  {
+    ...state.config.primaryWebhook,
+    id: PRIMARY_WEBHOOK_ID,
+    url: resolveWebhook(state.config.webhookUrl).url,
+    enabled: true,
+  },
+  ...state.config.secondaryWebhooks.filter((w) => w.enabled && w.url),
+];
+
 export const stripDataUrlPrefix = (dataUrl: string) =>
   dataUrl.replace(/^data:image\/[a-zA-Z+]+;base64,/, "");
@@ -0,0 +1,118 @@
+import { createWorker, OEM, PSM, type Worker } from "tesseract.js";
+// Worker, núcleo WASM e modelo de idioma são servidos pelo próprio app: o OCR funciona sem internet
+import workerPath from "tesseract.js/dist/worker.min.js?url";
+import corePath from "tesseract.js-core/tesseract-core-lstm.wasm.js?url";
+import { FuelDefinition, FuelId } from "../config/fuels";
+import { PaymentModeDefinition, PaymentModeId } from "../config/paymentModes";
+
+// Leitura da placa de preços: um valor proposto por forma de pagamento × combustível
+export type OcrProposal = {
+  mode: PaymentModeId;
+  fuel: FuelId;
+  value: string; // "5,89"
+  confidence: number; // 0..100
+};
+
+export type OcrResult = {
+  proposals: OcrProposal[];
+  confidence: number; // média das propostas (0..100)
+};
+
+type Candidate = { value: string; confidence: number; x: number; y: number; height: number };
+
+let workerPromise: Promise<Worker> | undefined;
+
+const getWorker = (): Promise<Worker> => {
+  if (!workerPromise) {
+    workerPromise = (async () => {
+      const worker = await createWorker("eng", OEM.LSTM_ONLY, {
+        workerPath,
+        corePath,
+        // diretório do modelo (ver tesseractLanguageData no vite.config.ts); absoluto, pois é buscado de dentro do worker
+        langPath: new URL(`${import.meta.env.BASE_URL}tesseract`, window.location.href).href,
+        gzip: true,
+        workerBlobURL: false,
+        cacheMethod: "none",
+      });
+      await worker.setParameters({
+        tessedit_char_whitelist: "0123456789,.",
+        tessedit_pageseg_mode: PSM.SPARSE_TEXT,
+      });
+      return worker;
+    })().catch((e) => {
+      workerPromise = undefined;
+      throw e;
+    });
+  }
+  return workerPromise;
+};
+
+// "5,89", "5.899", "589" -> "5,89" (o terceiro decimal das placas é descartado, como no PriceInput)
+const toPrice = (text: string): string | undefined => {
+  const m = text.trim().match(/^(\d)[,.]?(\d{2})\d?$/);
+  return m ? `${m[1]},${m[2]}` : undefined;
+};
+
+// Agrupa os valores em linhas da placa (pela altura na imagem), da esquerda para a direita
+const groupRows = (candidates: Candidate[]): Candidate[][] => {
+  const rows: Candidate[][] = [];
+  [...candidates]
+    .sort((a, b) => a.y - b.y)
+    .forEach((c) => {
+      const row = rows[rows.length - 1];
+      if (row && Math.abs(row[0].y - c.y) <= Math.max(row[0].height, c.height) / 2) row.push(c);
+      else rows.push([c]);
+    });
+  return rows.map((row) => row.sort((a, b) => a.x - b.x));
+};
+
+/**
+ * Reconhece os preços de uma foto de placa. Assume o layout mais comum dos totens:
+ * uma linha por combustível (na ordem do catálogo) e uma coluna por forma de pagamento.
+ * O resultado é só uma sugestão — o usuário confirma ou corrige antes de aplicar.
+ */
+export const recognizePrices = async (
+  image: Blob,
+  fuels: FuelDefinition[],
+  paymentModes: PaymentModeDefinition[]
+): Promise<OcrResult> => {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(image, {}, { blocks: true, text: false });
+
+  const min = Math.min(...fuels.map((f) => f.minPrice));
+  const max = Math.max(...fuels.map((f) => f.maxPrice));
+  const candidates: Candidate[] = [];
+  (data.blocks || []).forEach((block) =>
+    block.paragraphs.forEach((paragraph) =>
+      paragraph.lines.forEach((line) =>
+        line.words.forEach((word) => {
+          const value = toPrice(word.text);
+          if (!value) return;
+          const n = Number(value.replace(",", "."));
+          if (n < min || n > max) return;
+          candidates.push({
+            value,
+            confidence: Math.round(word.confidence),
+            x: word.bbox.x0,
+            y: (word.bbox.y0 + word.bbox.y1) / 2,
+            height: word.bbox.y1 - word.bbox.y0,
+          });
+        })
+      )
+    )
+  );
+
+  const proposals: OcrProposal[] = [];
+  groupRows(candidates)
+    .slice(0, fuels.length)
+    .forEach((row, i) => {
+      row.slice(0, paymentModes.length).forEach((c, j) => {
+        proposals.push({ mode: paymentModes[j].id, fuel: fuels[i].id, value: c.value, confidence: c.confidence });
+      });
+    });
+
+  const confidence = proposals.length
+    ? Math.round(proposals.reduce((sum, p) => sum + p.confidence, 0) / proposals.length)
+    : 0;
+  return { proposals, confidence };
+};
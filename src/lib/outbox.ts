@@ -0,0 +1,294 @@
+import { format } from "date-fns";
+import { updateHistoryEntry } from "./history";
+import { openDatabase, requestResult, txDone } from "./idb";
+import { removeImagesForPeriod } from "./imagesDB";
+import {
+  AppState,
+  getWebhookEndpoints,
+  markPeriodSent,
+  PeriodKey,
+  periodFingerprint,
+  readAppState,
+  recordPeriodSent,
+  SentStations,
+  sentStations,
+} from "./localStorage";
+import { PayloadV2 } from "./payloadV2";
+import { describeWebhookError, postToWebhook, SubmissionPayloads, WebhookAck } from "./webhook";
+import { PRIMARY_WEBHOOK_ID } from "../config/webhook";
+
+// Fila persistente de envios (IndexedDB): cada envio fica guardado até o webhook confirmar o recebimento
+export type OutboxEntry = {
+  id: string; // id do envio (lib/submissionId.ts), reutilizado em todas as tentativas
+  period: PeriodKey;
+  day: string; // yyyy-MM-dd
+  payload: Record<string, string>;
+  structured?: PayloadV2; // payload v2 (sempre guardado: o formato de um endpoint pode mudar com o envio na fila)
+  createdAt: string; // ISO string
+  attempts: number;
+  nextAttemptAt: number; // epoch ms
+  lastError?: string;
+  deliveredTo?: string[]; // endpoints secundários que já receberam este envio (não recebem de novo)
+  fingerprint?: string; // periodFingerprint do formulário no momento do envio
+  stations?: SentStations; // preços enviados, base do "último preço enviado"
+};
+
+export type OutboxResult =
+  | { status: "sent"; ack?: WebhookAck }
+  | { status: "queued"; error: string }
+  | { status: "rejected"; message: string }; // recusado pelo webhook: não é reenviado
+
+const DB_NAME = "price_registry_outbox";
+const DB_VERSION = 1;
+const STORE_NAME = "submissions";
+
+const BASE_RETRY_MS = 15_000;
+const MAX_RETRY_MS = 15 * 60_000;
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+let retryTimer: number | undefined;
+let started = false;
+const inFlight = new Set<string>();
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: "id" });
+      }
+    }).catch((e) => {
+      dbPromise = undefined;
+      throw e;
+    });
+  }
+  return dbPromise;
+};
+
+const notifyChanged = () => window.dispatchEvent(new CustomEvent("outbox-updated"));
+
+const putEntry = async (entry: OutboxEntry) => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_NAME, "readwrite");
+  tx.objectStore(STORE_NAME).put(entry);
+  await txDone(tx);
+};
+
+const getEntry = async (id: string) => {
+  const db = await openDB();
+  const store = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME);
+  return (await requestResult(store.get(id))) as OutboxEntry | undefined;
+};
+
+const deleteEntry = async (id: string) => {
+  const db = await openDB();
+  const tx = db.transaction(STORE_NAME, "readwrite");
+  tx.objectStore(STORE_NAME).delete(id);
+  await txDone(tx);
+};
+
+export const listOutbox = async (): Promise<OutboxEntry[]> => {
+  try {
+    const db = await openDB();
+    const store = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME);
+    const entries = (await requestResult(store.getAll())) as OutboxEntry[];
+    return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (e) {
+    console.error("[outbox] Failed to read outbox", e);
+    return [];
+  }
+};
+
+// Atraso exponencial: 15s, 30s, 1min, 2min ... até 15min
+const retryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_MS);
+
+// Envia a todos os endpoints que ainda não receberam o envio. Só o principal decide o resultado:
+// se ele falhar, o envio volta para a fila; falhas dos secundários após o sucesso do principal são só registradas.
+const postPayload = async (entry: OutboxEntry) => {
+  const endpoints = getWebhookEndpoints().filter((w) => !entry.deliveredTo?.includes(w.id));
+  const results = await Promise.allSettled(
+    endpoints.map((w) => postToWebhook(w, { legacy: entry.payload, v2: entry.structured }, { submissionId: entry.id }))
+  );
+
+  const deliveredTo = [...(entry.deliveredTo || [])];
+  let primaryError: unknown;
+  let ack: WebhookAck | undefined;
+  results.forEach((r, i) => {
+    const { id, url } = endpoints[i];
+    if (r.status === "fulfilled") {
+      if (id === PRIMARY_WEBHOOK_ID) {
+        ack = r.value.ack;
+      } else {
+        deliveredTo.push(id);
+        if (r.value.ack?.status === "rejected") {
+          console.warn(`[outbox] Secondary webhook ${url} rejected the submission`, r.value.ack.message);
+        }
+      }
+    } else if (id === PRIMARY_WEBHOOK_ID) {
+      primaryError = r.reason;
+    } else {
+      console.warn(`[outbox] Secondary webhook ${url} failed`, r.reason);
+    }
+  });
+  return { deliveredTo, primaryError, ack };
+};
+
+// Tenta entregar um envio; em caso de sucesso remove da fila e executa a limpeza pós-envio
+const deliver = async (entry: OutboxEntry, background: boolean): Promise<OutboxResult> => {
+  if (inFlight.has(entry.id)) return { status: "queued", error: "Envio em andamento" };
+  inFlight.add(entry.id);
+  let deliveredTo = entry.deliveredTo;
+  try {
+    const result = await postPayload(entry);
+    deliveredTo = result.deliveredTo;
+    if (result.primaryError) throw result.primaryError;
+    await deleteEntry(entry.id);
+
+    // Recusado pelo webhook: sai da fila, mas os dados do período ficam para correção e novo envio
+    if (result.ack?.status === "rejected") {
+      const message = result.ack.message || "Envio recusado pelo servidor";
+      await updateHistoryEntry(entry.id, {
+        status: "rejected",
+        attempts: entry.attempts + 1,
+        lastError: message,
+        ack: result.ack,
+      });
+      notifyChanged();
+      if (background) {
+        window.dispatchEvent(new CustomEvent("outbox-rejected", { detail: { period: entry.period, message } }));
+      }
+      return { status: "rejected", message };
+    }
+
+    await updateHistoryEntry(entry.id, {
+      status: "sent",
+      sentAt: new Date().toISOString(),
+      attempts: entry.attempts + 1,
+      lastError: undefined,
+      ack: result.ack,
+    });
+
+    // Só limpa o período se o formulário ainda for o que foi enviado (mesmo dia, sem edições desde então)
+    // e não houver outro envio mais recente dele aguardando na fila; senão as fotos e preços
+    // preenchidos depois seriam apagados ou copiados para o período seguinte
+    const delivered = { sentAt: new Date().toISOString(), queuedAt: entry.createdAt, stations: entry.stations };
+    const unchanged =
+      entry.day === format(new Date(), "yyyy-MM-dd") &&
+      entry.fingerprint === periodFingerprint(readAppState(), entry.period);
+    const remaining = await listOutbox();
+    if (unchanged && !remaining.some((e) => e.period === entry.period)) {
+      await removeImagesForPeriod(entry.period);
+      markPeriodSent(entry.period, delivered);
+    } else {
+      recordPeriodSent(entry.period, delivered);
+    }
+
+    notifyChanged();
+    if (background) {
+      window.dispatchEvent(new CustomEvent("outbox-delivered", { detail: { period: entry.period, ack: result.ack } }));
+    }
+    return { status: "sent", ack: result.ack };
+  } catch (e) {
+    const error = describeWebhookError(e);
+    const attempts = entry.attempts + 1;
+    // Não recria o item se ele foi substituído por um envio mais novo durante a tentativa
+    if (await getEntry(entry.id)) {
+      await putEntry({
+        ...entry,
+        attempts,
+        deliveredTo,
+        lastError: error,
+        nextAttemptAt: Date.now() + retryDelay(attempts),
+      });
+      await updateHistoryEntry(entry.id, { attempts, lastError: error });
+    }
+    notifyChanged();
+    return { status: "queued", error };
+  } finally {
+    inFlight.delete(entry.id);
+  }
+};
+
+const scheduleRetry = (entries: OutboxEntry[]) => {
+  if (retryTimer !== undefined) window.clearTimeout(retryTimer);
+  retryTimer = undefined;
+  if (entries.length === 0) return;
+  const next = Math.min(...entries.map((e) => e.nextAttemptAt));
+  retryTimer = window.setTimeout(() => void flushOutbox(), Math.max(1_000, next - Date.now()));
+};
+
+// Reenvia os itens vencidos (ou todos, quando a conexão volta)
+export const flushOutbox = async (force = false) => {
+  if (!navigator.onLine) return;
+  const now = Date.now();
+  for (const entry of await listOutbox()) {
+    if (force || entry.nextAttemptAt <= now) {
+      await deliver(entry, true);
+    }
+  }
+  scheduleRetry(await listOutbox());
+};
+
+// Id do envio pendente do mesmo dia/período com o mesmo conteúdo do formulário: tocar em "Enviar"
+// de novo (ex.: após um tempo esgotado em que o webhook recebeu os dados) reutiliza o id,
+// e o webhook descarta a repetição pelo Idempotency-Key
+export const pendingSubmissionId = async (period: PeriodKey, state: AppState): Promise<string | undefined> => {
+  const day = format(new Date(), "yyyy-MM-dd");
+  const fingerprint = periodFingerprint(state, period);
+  return (await listOutbox()).find((e) => e.period === period && e.day === day && e.fingerprint === fingerprint)?.id;
+};
+
+// Coloca o envio na fila (substituindo um pendente do mesmo dia/período) e tenta entregá-lo imediatamente.
+// O id é o mesmo da entrada no histórico, para que o status de entrega seja refletido lá.
+export const enqueueSubmission = async (
+  id: string,
+  period: PeriodKey,
+  { legacy, v2 }: SubmissionPayloads
+): Promise<OutboxResult> => {
+  const now = new Date();
+  const day = format(now, "yyyy-MM-dd");
+  const state = readAppState();
+
+  const superseded = (await listOutbox()).filter((e) => e.period === period && e.day === day);
+  for (const e of superseded) {
+    await deleteEntry(e.id);
+    if (e.id !== id) await updateHistoryEntry(e.id, { status: "superseded" });
+  }
+  // Mesmo id (ver pendingSubmissionId): continua a contagem de tentativas e os secundários
+  // que já o receberam não recebem de novo
+  const resent = superseded.find((e) => e.id === id);
+  const deliveredTo = resent?.deliveredTo;
+
+  const entry: OutboxEntry = {
+    id,
+    period,
+    day,
+    payload: legacy,
+    structured: v2,
+    deliveredTo,
+    fingerprint: periodFingerprint(state, period),
+    stations: sentStations(state, period),
+    createdAt: now.toISOString(),
+    attempts: resent?.attempts ?? 0,
+    nextAttemptAt: now.getTime(),
+  };
+  await putEntry(entry);
+  notifyChanged();
+
+  if (!navigator.onLine) {
+    scheduleRetry(await listOutbox());
+    return { status: "queued", error: "Sem conexão com a internet" };
+  }
+
+  const result = await deliver(entry, false);
+  scheduleRetry(await listOutbox());
+  return result;
+};
+
+// Inicia o reenvio automático: ao abrir o app e sempre que a conexão voltar
+export const startOutbox = () => {
+  if (started) return;
+  started = true;
+  window.addEventListener("online", () => void flushOutbox(true));
+  void flushOutbox();
+};
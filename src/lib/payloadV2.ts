@@ -0,0 +1,220 @@
+import {
+  AppState,
+  defaultNameForId,
+  getEnabledFuels,
+  getEnabledPaymentModes,
+  getVisibleStationIds,
+  isOwnStationId,
+  PeriodKey,
+  periodLabel,
+  stationNumber,
+  StationData,
+} from "./localStorage";
+import { parsePrice } from "./priceValidation";
+import { getDeviceId } from "./submissionId";
+import { isOutsideWindow } from "./submissionWindow";
+
+// Formato v2 do payload: JSON estruturado com ids estáveis do catálogo no lugar dos rótulos.
+// Os tipos abaixo são a fonte do JSON Schema publicado em public/schemas/payload-v2.schema.json
+// (gerado com `npm run schema`; os comentários /** */ viram as descrições do schema).
+
+export const PAYLOAD_SCHEMA_VERSION = 2;
+
+/** Submission sent to the webhooks in the v2 format. */
+export type PayloadV2 = {
+  /** Always 2 for this format. */
+  schemaVersion: 2;
+  /** Connection test sent from Configurações; carries no stations. */
+  test?: boolean;
+  /** Stable id of the submission (device + day + period + attempt); reused by automatic retries. */
+  submissionId: string;
+  /** Random id generated once per device. */
+  deviceId: string;
+  /**
+   * ISO 8601 timestamp of when the payload was built.
+   * @format date-time
+   */
+  createdAt: string;
+  period: {
+    /** Period key from the period catalogue, e.g. "manha". */
+    id: string;
+    label: string;
+    /** Sent outside the period's submission window. */
+    late: boolean;
+  };
+  stations: PayloadV2Station[];
+};
+
+export type PayloadV2Station = {
+  /** Stable station id, e.g. "reference", "reference_2" or "competitor_<uuid>". */
+  id: string;
+  kind: "own" | "competitor";
+  /** Position of the station within its kind (1-based), as shown in the app. */
+  number: number;
+  /** Name typed by the user, without the fixed "Posto Concorrente N: " prefix. */
+  name: string;
+  /** "Não houve alteração nos preços hoje" was checked; prices are then not required. */
+  noChange: boolean;
+  prices: PayloadV2Price[];
+  /** Null when the station has no photo. */
+  photo: PayloadV2Photo | null;
+  /** Null when no metadata was captured with the photo. */
+  metadata: PayloadV2Metadata | null;
+};
+
+export type PayloadV2Price = {
+  /** Payment mode id from the catalogue, e.g. "vista". */
+  paymentMode: string;
+  /** Fuel id from the catalogue, e.g. "etanol". */
+  fuel: string;
+  /** Price in BRL; null when empty or marked as "Sem dados". */
+  value: number | null;
+  /** Marked as "Sem dados" by the user. */
+  noData: boolean;
+};
+
+export type PayloadV2Photo = {
+  contentType: "image/jpeg";
+  /** Decoded size in bytes. */
+  bytes: number;
+  /** Inline photo (JSON transport). */
+  base64?: string;
+  /** Name of the multipart file part holding the photo (multipart transport). */
+  part?: string;
+};
+
+export type PayloadV2Metadata = {
+  /**
+   * When the photo was taken, from EXIF or the capture time.
+   * @format date-time
+   */
+  takenAt: string | null;
+  /** Camera make and model from EXIF. */
+  device: string | null;
+  validation: {
+    status: "validated" | "warning" | "invalid" | null;
+    reason: string | null;
+  };
+  gps: PayloadV2Coordinates | null;
+  deviceLocation: (PayloadV2Coordinates & {
+    /** Accuracy in meters. */
+    accuracy: number;
+    /** @format date-time */
+    timestamp: string;
+  }) | null;
+  /** Distance in meters between the photo and the station's registered location. */
+  distanceMeters: number | null;
+  tamper: {
+    score: number;
+    reasons: string[];
+  } | null;
+  /** Why the photo looks like a repeated one, if it does. */
+  duplicateReason: string | null;
+  ocr: {
+    /** Average confidence, 0-100. */
+    confidence: number;
+    fields: Array<{
+      paymentMode: string;
+      fuel: string;
+      recognized: number | null;
+      /** 0-100 */
+      confidence: number;
+    }>;
+  } | null;
+};
+
+export type PayloadV2Coordinates = {
+  latitude: number;
+  longitude: number;
+};
+
+// Tamanho decodificado de um base64
+export const base64Bytes = (b64: string) =>
+  Math.floor((b64.length * 3) / 4) - (b64.endsWith("==") ? 2 : b64.endsWith("=") ? 1 : 0);
+
+// Nome da parte multipart da foto de um posto no formato v2
+export const photoPartName = (stationId: string) => `photo_${stationId}`;
+
+const stationMetadata = (metadata: StationData["metadata"]): PayloadV2Metadata | null => {
+  if (!metadata) return null;
+  return {
+    takenAt: metadata.dateTime ?? null,
+    device: metadata.make && metadata.model ? `${metadata.make} ${metadata.model}` : null,
+    validation: { status: metadata.validationStatus ?? null, reason: metadata.validationReason ?? null },
+    gps:
+      metadata.gps?.latitude !== undefined && metadata.gps?.longitude !== undefined
+        ? { latitude: metadata.gps.latitude, longitude: metadata.gps.longitude }
+        : null,
+    deviceLocation: metadata.deviceLocation ? { ...metadata.deviceLocation } : null,
+    distanceMeters: metadata.distanceMeters ?? null,
+    tamper:
+      metadata.tamperScore !== undefined
+        ? { score: metadata.tamperScore, reasons: metadata.tamperReasons ?? [] }
+        : null,
+    duplicateReason: metadata.duplicateReason ?? null,
+    ocr: metadata.ocr
+      ? {
+          confidence: metadata.ocr.confidence,
+          fields: metadata.ocr.fields.map((f) => ({
+            paymentMode: f.mode,
+            fuel: f.fuel,
+            recognized: parsePrice(f.recognized) ?? null,
+            confidence: f.confidence,
+          })),
+        }
+      : null,
+  };
+};
+
+/**
+ * Monta o payload v2 do período. As fotos vão em base64 dentro de cada posto;
+ * no transporte multipart elas são trocadas por partes binárias (ver lib/webhook.ts).
+ */
+export const formatPayloadV2 = (period: PeriodKey, state: AppState, submissionId: string): PayloadV2 => {
+  const now = new Date();
+  const fuels = getEnabledFuels(state);
+  const paymentModes = getEnabledPaymentModes(state);
+
+  const stations = getVisibleStationIds(state)
+    .filter((id) => state.periods[period].stations[id])
+    .map((id): PayloadV2Station => {
+      const st = state.periods[period].stations[id];
+      const prefix = defaultNameForId(state, id);
+      const name = state.meta.names[id] || "";
+      return {
+        id,
+        kind: isOwnStationId(id) ? "own" : "competitor",
+        number: stationNumber(state, id),
+        name: name.startsWith(prefix) ? name.slice(prefix.length) : name,
+        noChange: st.noChange,
+        prices: paymentModes.flatMap((mode) =>
+          fuels.map((fuel) => {
+            const raw = st.prices[mode.id]?.[fuel.id] ?? "";
+            return {
+              paymentMode: mode.id,
+              fuel: fuel.id,
+              value: parsePrice(raw) ?? null,
+              noData: raw === "Sem dados",
+            };
+          })
+        ),
+        photo: st.photoBase64
+          ? { contentType: "image/jpeg", bytes: base64Bytes(st.photoBase64), base64: st.photoBase64 }
+          : null,
+        metadata: stationMetadata(st.metadata),
+      };
+    });
+
+  return {
+    schemaVersion: PAYLOAD_SCHEMA_VERSION,
+    submissionId,
+    deviceId: getDeviceId(),
+    createdAt: now.toISOString(),
+    period: {
+      id: period,
+      label: periodLabel(state, period),
+      late: isOutsideWindow(state.config.submissionWindows[period], now),
+    },
+    stations,
+  };
+};
@@ -0,0 +1,115 @@
+import { format, subDays } from 'date-fns';
+
+// Hash perceptual (dHash de 64 bits) das fotos das placas, para detectar fotos repetidas
+// entre postos do mesmo período ou reaproveitadas de envios anteriores
+
+export type PhotoHashEntry = {
+  hash: string; // 16 dígitos hexadecimais
+  stationId: string;
+  stationName: string;
+  period: string;
+  day: string; // yyyy-MM-dd
+};
+
+const HISTORY_KEY = 'price_registry_photo_hashes';
+const HISTORY_DAYS = 30;
+const HISTORY_MAX = 500;
+
+// Até 6 bits diferentes (de 64) a foto é considerada praticamente a mesma
+export const DUPLICATE_MAX_DISTANCE = 6;
+
+/**
+ * dHash: reduz a imagem para 9x8 em tons de cinza e compara cada pixel com o vizinho da direita
+ */
+export const computePhotoHash = async (blob: Blob): Promise<string> => {
+  const img = document.createElement('img');
+  await new Promise((res, rej) => {
+    img.onload = () => res(null);
+    img.onerror = rej;
+    img.src = URL.createObjectURL(blob);
+  }).finally(() => URL.revokeObjectURL(img.src));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = 9;
+  canvas.height = 8;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0, 9, 8);
+  const { data } = ctx.getImageData(0, 0, 9, 8);
+
+  const gray = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+
+  let hex = '';
+  for (let y = 0; y < 8; y++) {
+    let byte = 0;
+    for (let x = 0; x < 8; x++) {
+      byte = (byte << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+const readHistory = (): PhotoHashEntry[] => {
+  try {
+    const raw = localStorage.getItem(HISTORY_KEY);
+    return raw ? (JSON.parse(raw) as PhotoHashEntry[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Guarda os hashes das fotos enviadas (janela de HISTORY_DAYS dias, no máximo HISTORY_MAX itens)
+ */
+export const rememberPhotoHashes = (entries: PhotoHashEntry[]) => {
+  if (entries.length === 0) return;
+  const cutoff = format(subDays(new Date(), HISTORY_DAYS), 'yyyy-MM-dd');
+  const next = [...readHistory(), ...entries].filter((e) => e.day >= cutoff).slice(-HISTORY_MAX);
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(next));
+  } catch (e) {
+    console.warn('[photoHash] Could not save photo hash history', e);
+  }
+};
+
+/**
+ * Procura uma foto praticamente igual entre as dos outros postos do período e as já enviadas.
+ * Devolve o motivo a ser exibido, ou undefined se a foto for inédita.
+ */
+export const findDuplicatePhoto = (
+  hash: string,
+  stationId: string,
+  others: Array<{ stationName: string; hash?: string }>
+): string | undefined => {
+  const sibling = others.find((o) => o.hash && hammingDistance(o.hash, hash) <= DUPLICATE_MAX_DISTANCE);
+  if (sibling) {
+    return `Foto praticamente igual à de ${sibling.stationName.replace(/:\s*$/, '')}`;
+  }
+
+  // A placa do mesmo posto fotografada de novo no mesmo dia (ex.: em dois períodos) pode ser idêntica
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const previous = readHistory()
+    .reverse()
+    .filter((e) => !(e.stationId === stationId && e.day === today))
+    .find((e) => hammingDistance(e.hash, hash) <= DUPLICATE_MAX_DISTANCE);
+  if (previous) {
+    const [y, m, d] = previous.day.split('-');
+    return `Foto praticamente igual à enviada em ${d}/${m}/${y} (${previous.stationName.replace(/:\s*$/, '')})`;
+  }
+  return undefined;
+};
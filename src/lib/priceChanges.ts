@@ -0,0 +1,57 @@
+import { FuelDefinition, FuelId } from "../config/fuels";
+import { PaymentModeDefinition, PaymentModeId } from "../config/paymentModes";
+import { LastSentPrices, StationData } from "./localStorage";
+import { parsePrice } from "./priceValidation";
+
+export type PriceChange = {
+  mode: PaymentModeId;
+  fuel: FuelId;
+  previous: number;
+  current: number;
+  delta: number; // R$
+  percent: number; // % em relação ao anterior
+  significant: boolean; // |percent| acima do limite configurado
+};
+
+// Compara os preços preenchidos com os do último envio do mesmo posto (campo a campo)
+export const comparePrices = (
+  station: StationData,
+  previous: LastSentPrices | undefined,
+  fuels: FuelDefinition[],
+  paymentModes: PaymentModeDefinition[],
+  thresholdPercent: number
+): PriceChange[] => {
+  if (!previous || station.noChange) return [];
+  const changes: PriceChange[] = [];
+  paymentModes.forEach(({ id: mode }) => {
+    fuels.forEach(({ id: fuel }) => {
+      const before = previous.prices[mode]?.[fuel];
+      const current = parsePrice(station.prices[mode]?.[fuel]);
+      if (before === undefined || current === undefined) return;
+      const delta = Math.round((current - before) * 100) / 100;
+      const percent = before > 0 ? (delta / before) * 100 : 0;
+      changes.push({
+        mode,
+        fuel,
+        previous: before,
+        current,
+        delta,
+        percent,
+        significant: Math.abs(percent) > thresholdPercent,
+      });
+    });
+  });
+  return changes;
+};
+
+const brl = (v: number) => v.toFixed(2).replace(".", ",");
+
+// "↑ R$ 0,10 (+1,7%)"
+export const formatPriceChange = ({ delta, percent }: PriceChange) => {
+  if (delta === 0) return "sem variação";
+  const arrow = delta > 0 ? "↑" : "↓";
+  const sign = delta > 0 ? "+" : "−";
+  return `${arrow} R$ ${brl(Math.abs(delta))} (${sign}${Math.abs(percent).toFixed(1).replace(".", ",")}%)`;
+};
+
+export const formatPrice = (v: number) => `R$ ${brl(v)}`;
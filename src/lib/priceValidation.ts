@@ -0,0 +1,91 @@
+import { FuelDefinition, FuelId } from "../config/fuels";
+import { PaymentModeDefinition, PaymentModeId } from "../config/paymentModes";
+import { DEFAULT_PRICE_RULES, PriceRule, PriceRuleSeverity } from "../config/priceRules";
+import { StationData } from "./localStorage";
+
+export type PriceIssue = {
+  code: "incomplete" | "range" | "rule";
+  mode: PaymentModeId;
+  fuel: FuelId;
+  severity: PriceRuleSeverity;
+  message: string;
+};
+
+// Máscara dos campos de preço: até 3 dígitos no formato "X,YZ" (ou "Sem dados")
+export const sanitizePrice = (raw: string) => {
+  if (raw === "Sem dados") return "Sem dados";
+  const digits = raw.replace(/\D/g, "").slice(0, 3);
+  if (digits.length === 0) return "";
+  if (digits.length === 1) return digits[0]; // Just "X"
+  if (digits.length === 2) return `${digits[0]},${digits[1]}`; // "X,Y"
+  return `${digits[0]},${digits[1]}${digits[2]}`; // "X,YZ"
+};
+
+const formatBRL = (v: number) => v.toFixed(2).replace(".", ",");
+
+// "5,99" -> 5.99; vazio, "Sem dados" ou incompleto ("5", "5,9") -> undefined
+export const parsePrice = (value?: string): number | undefined => {
+  if (!value || !/^\d,\d{2}$/.test(value)) return undefined;
+  return Number(value.replace(",", "."));
+};
+
+/**
+ * Regras de sanidade dos preços de um posto: formato, faixa min/max do combustível
+ * e regras entre campos (config/priceRules.ts). Campos vazios ficam a cargo da
+ * validação de obrigatoriedade.
+ */
+export const validateStationPrices = (
+  station: StationData,
+  fuels: FuelDefinition[],
+  paymentModes: PaymentModeDefinition[],
+  rules: PriceRule[] = DEFAULT_PRICE_RULES
+): PriceIssue[] => {
+  if (station.noChange) return [];
+  const issues: PriceIssue[] = [];
+  const price = (mode: PaymentModeId, fuel: FuelId) => parsePrice(station.prices[mode]?.[fuel]);
+
+  paymentModes.forEach(({ id: mode }) => {
+    fuels.forEach((fuel) => {
+      const raw = station.prices[mode]?.[fuel.id];
+      if (!raw || raw === "Sem dados") return;
+      const v = parsePrice(raw);
+      if (v === undefined) {
+        issues.push({ code: "incomplete", mode, fuel: fuel.id, severity: "error", message: "Preço incompleto (use o formato 0,00)" });
+      } else if (v < fuel.minPrice || v > fuel.maxPrice) {
+        issues.push({
+          code: "range",
+          mode,
+          fuel: fuel.id,
+          severity: "error",
+          message: `Fora da faixa esperada (R$ ${formatBRL(fuel.minPrice)} a R$ ${formatBRL(fuel.maxPrice)})`,
+        });
+      }
+    });
+  });
+
+  const enabledModes = new Set(paymentModes.map((m) => m.id));
+  const enabledFuels = new Set(fuels.map((f) => f.id));
+  rules.forEach((rule) => {
+    if (rule.kind === "fuel") {
+      if (!enabledFuels.has(rule.higher) || !enabledFuels.has(rule.lower)) return;
+      paymentModes.forEach(({ id: mode }) => {
+        const hi = price(mode, rule.higher);
+        const lo = price(mode, rule.lower);
+        if (hi !== undefined && lo !== undefined && hi < lo) {
+          issues.push({ code: "rule", mode, fuel: rule.higher, severity: rule.severity, message: rule.message });
+        }
+      });
+    } else {
+      if (!enabledModes.has(rule.higher) || !enabledModes.has(rule.lower)) return;
+      fuels.forEach(({ id: fuel }) => {
+        const hi = price(rule.higher, fuel);
+        const lo = price(rule.lower, fuel);
+        if (hi !== undefined && lo !== undefined && hi < lo) {
+          issues.push({ code: "rule", mode: rule.higher, fuel, severity: rule.severity, message: rule.message });
+        }
+      });
+    }
+  });
+
+  return issues;
+};
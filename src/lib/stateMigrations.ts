@@ -0,0 +1,157 @@
+// Versionamento do AppState salvo em localStorage.
+// Cada migração leva o estado bruto da versão (version - 1) para a versão `version`;
+// estados sem schemaVersion são tratados como versão 0 (formato original).
+
+export type RawAppState = {
+  schemaVersion?: number;
+  config?: Record<string, unknown>;
+  meta?: Record<string, unknown>;
+  periods?: Record<string, unknown>;
+};
+
+type Migration = {
+  version: number;
+  description: string;
+  migrate: (state: RawAppState) => RawAppState;
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Concorrentes passam de uma quantidade para uma lista de ids estáveis",
+    migrate: (state) => {
+      const { concorrentesCount, ...config } = state.config || {};
+      const count = typeof concorrentesCount === "number" ? concorrentesCount : 1;
+      return {
+        ...state,
+        config: {
+          ...config,
+          competitors: Array.isArray(config.competitors)
+            ? config.competitors
+            : Array.from({ length: count }, (_, i) => `competitor_${i + 1}`),
+        },
+      };
+    },
+  },
+  {
+    version: 2,
+    description: "Quantidade de Postos Natureza por aparelho",
+    migrate: (state) => ({
+      ...state,
+      config: {
+        ...state.config,
+        ownStationsCount: typeof state.config?.ownStationsCount === "number" ? state.config.ownStationsCount : 1,
+      },
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const backupKey = (storageKey: string) => `${storageKey}_backup`;
+const lastGoodKey = (storageKey: string) => `${storageKey}_last_good`;
+const corruptKey = (storageKey: string) => `${storageKey}_corrupt`;
+// Backups por versão gravados pelas versões anteriores do app (um por passo de migração)
+const legacyBackupKey = (storageKey: string, version: number) => `${storageKey}_backup_v${version}`;
+
+// Cópia sem as fotos em base64 e sem os metadados delas, para caber na cota do localStorage
+// (5 MB em alguns navegadores); as fotos continuam no IndexedDB
+const slimState = (state: RawAppState): RawAppState => ({
+  ...state,
+  periods: Object.fromEntries(
+    Object.entries(state.periods || {}).map(([period, bucket]) => {
+      const stations = (bucket as { stations?: Record<string, Record<string, unknown>> })?.stations || {};
+      return [
+        period,
+        {
+          ...(bucket as Record<string, unknown>),
+          stations: Object.fromEntries(
+            Object.entries(stations).map(([id, { photoBase64: _photo, metadata: _metadata, ...rest }]) => [id, rest])
+          ),
+        },
+      ];
+    })
+  ),
+});
+
+const writeCopy = (key: string, state: RawAppState) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(state));
+  } catch (e) {
+    console.warn(`[stateMigrations] Could not write ${key}`, e);
+  }
+};
+
+// Intervalo mínimo entre duas gravações da última cópia boa (uma serialização completa do estado)
+const LAST_GOOD_INTERVAL_MS = 5 * 60_000;
+let lastGoodWrittenAt = 0;
+
+const removeLegacyBackups = (storageKey: string) => {
+  for (let version = 0; version <= CURRENT_SCHEMA_VERSION; version++) {
+    localStorage.removeItem(legacyBackupKey(storageKey, version));
+  }
+};
+
+// Aplica, em ordem, as migrações pendentes. Antes delas o estado bruto é copiado para
+// "<storageKey>_backup", que fica guardado até a próxima migração.
+export const migrateAppState = (
+  storageKey: string,
+  raw: RawAppState
+): { state: RawAppState; migrated: boolean } => {
+  const from = raw.schemaVersion ?? 0;
+  if (from > CURRENT_SCHEMA_VERSION) {
+    console.warn(`[stateMigrations] State schema v${from} is newer than this app (v${CURRENT_SCHEMA_VERSION}).`);
+    return { state: raw, migrated: false };
+  }
+  if (from === CURRENT_SCHEMA_VERSION) return { state: raw, migrated: false };
+
+  // O estado bruto, como estava; só sem as fotos quando ele inteiro não couber
+  removeLegacyBackups(storageKey);
+  try {
+    localStorage.setItem(backupKey(storageKey), JSON.stringify(raw));
+  } catch {
+    console.warn("[stateMigrations] Pre-migration backup does not fit, keeping it without photos");
+    writeCopy(backupKey(storageKey), slimState(raw));
+  }
+
+  let state = raw;
+  for (const m of MIGRATIONS) {
+    const version = state.schemaVersion ?? 0;
+    if (m.version <= version) continue;
+    state = { ...m.migrate(state), schemaVersion: m.version };
+    console.info(`[stateMigrations] v${version} → v${m.version}: ${m.description}`);
+  }
+  return { state, migrated: true };
+};
+
+// Chamado a cada gravação bem-sucedida: guarda a última cópia boa (sem fotos) para recuperação,
+// no máximo a cada LAST_GOOD_INTERVAL_MS (a primeira gravação de cada sessão sempre grava)
+export const rememberLastGoodState = (storageKey: string, state: RawAppState) => {
+  if (Date.now() - lastGoodWrittenAt < LAST_GOOD_INTERVAL_MS) return;
+  lastGoodWrittenAt = Date.now();
+  writeCopy(lastGoodKey(storageKey), slimState(state));
+};
+
+// Guarda o conteúdo ilegível e devolve a última cópia boa (ou o backup da migração) que ainda possa ser lida
+export const recoverAppState = (storageKey: string, unreadable: string | null): RawAppState | undefined => {
+  if (unreadable) {
+    try {
+      localStorage.setItem(corruptKey(storageKey), unreadable);
+    } catch (e) {
+      console.warn("[stateMigrations] Could not keep a copy of the unreadable state", e);
+    }
+  }
+
+  for (const key of [lastGoodKey(storageKey), backupKey(storageKey)]) {
+    const copy = localStorage.getItem(key);
+    if (!copy) continue;
+    try {
+      const parsed = JSON.parse(copy) as RawAppState;
+      console.warn(`[stateMigrations] Recovered app state from ${key}`);
+      return parsed;
+    } catch {
+      // cópia também ilegível: tenta a próxima
+    }
+  }
+  return undefined;
+};
@@ -0,0 +1,47 @@
+import { format } from 'date-fns';
+import { PeriodKey } from './localStorage';
+
+// Identificador estável de cada envio: aparelho + dia + período + tentativa do dia.
+// Vai no cabeçalho Idempotency-Key e no campo "ID do Envio"; os reenvios automáticos da
+// outbox reutilizam o mesmo id, então o webhook pode descartar o que já recebeu.
+
+const DEVICE_KEY = 'price_registry_device_id';
+const ATTEMPTS_KEY = 'price_registry_submission_attempts';
+
+export const getDeviceId = (): string => {
+  let id = localStorage.getItem(DEVICE_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_KEY, id);
+  }
+  return id;
+};
+
+const readAttempts = (): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(ATTEMPTS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const buildId = (period: PeriodKey, now: Date, attempt: number) =>
+  `${getDeviceId()}-${format(now, 'yyyyMMdd')}-${period}-${attempt}`;
+
+/**
+ * Novo id para um envio feito pelo usuário (cada novo envio do mesmo dia/período é uma nova tentativa).
+ * O contador guarda só o dia atual.
+ */
+export const nextSubmissionId = (period: PeriodKey, now = new Date()): string => {
+  const day = format(now, 'yyyy-MM-dd');
+  const attempts = readAttempts();
+  const key = `${day}:${period}`;
+  const attempt = (attempts[key] ?? 0) + 1;
+  const today = Object.fromEntries(Object.entries(attempts).filter(([k]) => k.startsWith(`${day}:`)));
+  localStorage.setItem(ATTEMPTS_KEY, JSON.stringify({ ...today, [key]: attempt }));
+  return buildId(period, now, attempt);
+};
+
+// O id que o próximo envio terá, sem consumir a tentativa (pré-visualização e simulação)
+export const peekSubmissionId = (period: PeriodKey, now = new Date()): string =>
+  buildId(period, now, (readAttempts()[`${format(now, 'yyyy-MM-dd')}:${period}`] ?? 0) + 1);
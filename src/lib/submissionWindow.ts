@@ -0,0 +1,57 @@
+import { addDays, format, set } from "date-fns";
+import { SubmissionWindow, WEEKDAY_LABELS } from "../config/submissionWindows";
+
+export type WindowStatus =
+  | { state: "open"; closesAt: Date }
+  | { state: "before"; opensAt: Date }
+  | { state: "after"; nextOpensAt?: Date }; // encerrado hoje (ou dia sem envio)
+
+// Fechamento depois da abertura, no mesmo dia (janelas que passam da meia-noite não são suportadas),
+// e ao menos um dia da semana: sem isso o período nunca abre
+export const windowError = (window: SubmissionWindow): string | undefined => {
+  if (window.close <= window.open) return "O fechamento deve ser depois da abertura, no mesmo dia.";
+  if (window.weekdays.length === 0) return "Selecione ao menos um dia da semana.";
+  return undefined;
+};
+
+export const isValidWindow = (window: SubmissionWindow) => !windowError(window);
+
+const at = (day: Date, hhmm: string) => {
+  const [hours, minutes] = hhmm.split(":").map(Number);
+  return set(day, { hours, minutes, seconds: 0, milliseconds: 0 });
+};
+
+// Próxima abertura a partir de amanhã (até uma semana)
+const nextOpening = (window: SubmissionWindow, now: Date): Date | undefined => {
+  for (let i = 1; i <= 7; i++) {
+    const day = addDays(now, i);
+    if (window.weekdays.includes(day.getDay())) return at(day, window.open);
+  }
+  return undefined;
+};
+
+export const getWindowStatus = (window: SubmissionWindow, now = new Date()): WindowStatus => {
+  if (!window.weekdays.includes(now.getDay())) {
+    return { state: "after", nextOpensAt: nextOpening(window, now) };
+  }
+  const opensAt = at(now, window.open);
+  const closesAt = at(now, window.close);
+  if (now < opensAt) return { state: "before", opensAt };
+  if (now <= closesAt) return { state: "open", closesAt };
+  return { state: "after", nextOpensAt: nextOpening(window, now) };
+};
+
+export const isOutsideWindow = (window: SubmissionWindow, now = new Date()) =>
+  getWindowStatus(window, now).state !== "open";
+
+// "1h 05min", "12min", "menos de 1min"
+export const formatCountdown = (ms: number) => {
+  const total = Math.floor(ms / 60_000);
+  if (total < 1) return "menos de 1min";
+  const h = Math.floor(total / 60);
+  const m = total % 60;
+  return h > 0 ? `${h}h ${String(m).padStart(2, "0")}min` : `${m}min`;
+};
+
+// "Seg 06:00"
+export const formatOpening = (date: Date) => `${WEEKDAY_LABELS[date.getDay()]} ${format(date, "HH:mm")}`;
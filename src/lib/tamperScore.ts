@@ -0,0 +1,72 @@
+import { ImageMetadata } from './imageMetadata';
+
+// Heurísticas de edição/reenvio da foto a partir do EXIF, do nome e do tamanho do arquivo.
+// Nenhum indício prova adulteração sozinho: a soma dos pesos decide se a foto recebe aviso.
+
+export type TamperAssessment = {
+  score: number;
+  reasons: string[];
+};
+
+// A partir desta pontuação a foto recebe status "warning"
+export const TAMPER_WARNING_SCORE = 2;
+
+// Diferença tolerada entre os carimbos de data do EXIF (gravação da câmera leva alguns segundos)
+const TIMESTAMP_TOLERANCE_MS = 60_000;
+
+// Menos bytes por pixel que isto é típico de reenvio por aplicativos de mensagem
+const MIN_BYTES_PER_PIXEL = 0.08;
+
+const EDITORS = [
+  'snapseed', 'photoshop', 'lightroom', 'gimp', 'picsart', 'canva', 'pixelmator',
+  'vsco', 'instagram', 'facetune', 'fotor', 'polarr', 'photo editor', 'paint'
+];
+
+const readDimensions = async (file: Blob): Promise<{ width: number; height: number } | undefined> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const dims = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return dims;
+  } catch {
+    return undefined;
+  }
+};
+
+const differs = (a?: Date, b?: Date) =>
+  Boolean(a && b && Math.abs(a.getTime() - b.getTime()) > TIMESTAMP_TOLERANCE_MS);
+
+/**
+ * Pontua indícios de edição ou reenvio da foto original
+ */
+export const assessTamper = async (file: File, metadata: ImageMetadata | null): Promise<TamperAssessment> => {
+  const reasons: string[] = [];
+  let score = 0;
+  const add = (weight: number, reason: string) => {
+    score += weight;
+    reasons.push(reason);
+  };
+
+  const software = metadata?.software?.toLowerCase() ?? '';
+  const editor = EDITORS.find((e) => software.includes(e));
+  if (editor) add(3, `Editada com ${metadata!.software}`);
+
+  const ts = metadata?.timestamps;
+  if (differs(ts?.original, ts?.modified)) add(2, 'Data de modificação diferente da data original');
+  if (differs(ts?.original, ts?.created)) add(1, 'Data de criação diferente da data original');
+
+  if (/-WA\d+/i.test(file.name)) add(2, 'Foto recebida pelo WhatsApp');
+
+  const dims = await readDimensions(file);
+  if (dims && metadata?.exifWidth && metadata?.exifHeight) {
+    const same =
+      (dims.width === metadata.exifWidth && dims.height === metadata.exifHeight) ||
+      (dims.width === metadata.exifHeight && dims.height === metadata.exifWidth); // foto girada
+    if (!same) add(2, 'Dimensões diferentes das gravadas pela câmera (recorte ou redimensionamento)');
+  }
+  if (dims && metadata?.make && file.size / (dims.width * dims.height) < MIN_BYTES_PER_PIXEL) {
+    add(1, 'Compressão incomum para uma foto da câmera (possível reenvio)');
+  }
+
+  return { score, reasons };
+};
@@ -0,0 +1,242 @@
+import { format } from "date-fns";
+import { isPhotoField, photoFileName } from "./formatPayloadForN8n";
+import { base64ToBlob } from "./imagesDB";
+import { PAYLOAD_SCHEMA_VERSION, PayloadV2, photoPartName } from "./payloadV2";
+import { getDeviceId } from "./submissionId";
+import { WebhookEndpoint } from "../config/webhook";
+
+// Envio HTTP para os webhooks (n8n): usado pela outbox e pelo teste de conexão das Configurações
+
+const REQUEST_TIMEOUT_MS = 60_000;
+const TEST_TIMEOUT_MS = 15_000;
+
+// Confirmação opcional devolvida pelo webhook em JSON, ex.: {"status": "duplicate", "message": "..."}
+export type WebhookAckStatus = "accepted" | "duplicate" | "rejected";
+
+export type WebhookAck = {
+  status: WebhookAckStatus;
+  message?: string;
+};
+
+export type WebhookResponse = {
+  httpStatus: number;
+  ack?: WebhookAck; // ausente quando a resposta não traz a confirmação
+};
+
+export type WebhookTestResult = {
+  ok: boolean;
+  status?: number; // HTTP, quando houve resposta
+  ack?: WebhookAck;
+  error?: string;
+  elapsedMs: number;
+};
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+export const SIGNATURE_HEADER = "X-Signature";
+export const SIGNATURE_TIMESTAMP_HEADER = "X-Signature-Timestamp";
+
+const ACK_STATUSES: WebhookAckStatus[] = ["accepted", "duplicate", "rejected"];
+
+// Lê a confirmação do corpo da resposta; qualquer outro formato (texto, JSON sem status) é ignorado
+const readAck = async (res: Response): Promise<WebhookAck | undefined> => {
+  try {
+    const body = JSON.parse(await res.text());
+    if (body && ACK_STATUSES.includes(body.status)) {
+      return { status: body.status, message: typeof body.message === "string" ? body.message : undefined };
+    }
+  } catch {
+    // corpo vazio ou não JSON
+  }
+  return undefined;
+};
+
+export const isValidWebhookUrl = (url: string) => {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === "https:" || protocol === "http:";
+  } catch {
+    return false;
+  }
+};
+
+export const describeWebhookError = (e: unknown) =>
+  e instanceof DOMException && e.name === "AbortError"
+    ? "Tempo de envio esgotado"
+    : e instanceof Error ? e.message : String(e);
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, "0")).join("");
+
+// HMAC-SHA256 de `${timestamp}.${corpo}` com o segredo do endpoint (WebCrypto)
+export const signBody = async (secret: string, timestamp: string, body: Uint8Array): Promise<string> => {
+  if (!crypto.subtle) throw new Error("Assinatura indisponível: o app precisa estar em HTTPS");
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const prefix = encoder.encode(`${timestamp}.`);
+  const message = new Uint8Array(prefix.length + body.length);
+  message.set(prefix);
+  message.set(body, prefix.length);
+  return `sha256=${toHex(await crypto.subtle.sign("HMAC", key, message))}`;
+};
+
+// Payloads de um envio nos dois formatos: cada endpoint recebe o seu
+export type SubmissionPayloads = {
+  legacy: Record<string, string>;
+  v2?: PayloadV2; // ausente só em itens enfileirados antes do formato v2
+};
+
+type EncodableEndpoint = Pick<WebhookEndpoint, "transport" | "format" | "secret">;
+
+// Multipart: os campos de texto como campos do formulário e cada foto como arquivo JPEG
+const toFormData = async (payload: Record<string, string>) => {
+  const form = new FormData();
+  for (const [key, value] of Object.entries(payload)) {
+    if (isPhotoField(key) && value) {
+      form.append(key, await base64ToBlob(value), photoFileName(key));
+    } else {
+      form.append(key, value);
+    }
+  }
+  return form;
+};
+
+// Multipart v2: o JSON no campo "payload", com cada foto trocada pela referência à sua parte binária
+const toFormDataV2 = async (payload: PayloadV2) => {
+  const form = new FormData();
+  const photos: Array<[string, string]> = [];
+  const stations = payload.stations.map((station) => {
+    if (!station.photo?.base64) return station;
+    const part = photoPartName(station.id);
+    photos.push([part, station.photo.base64]);
+    return { ...station, photo: { contentType: station.photo.contentType, bytes: station.photo.bytes, part } };
+  });
+  form.append("payload", JSON.stringify({ ...payload, stations }));
+  for (const [part, base64] of photos) {
+    form.append(part, await base64ToBlob(base64), `${part}.jpg`);
+  }
+  return form;
+};
+
+// Corpo já codificado em bytes, para que a assinatura cubra exatamente o que é enviado.
+// Um endpoint v2 nunca recebe o formato legado: sem o v2 (item antigo da fila) o envio falha.
+const encodeBody = async (endpoint: EncodableEndpoint, payloads: SubmissionPayloads) => {
+  if (endpoint.format === "v2" && !payloads.v2) {
+    throw new Error("Envio sem o formato v2 exigido por este endpoint");
+  }
+  const v2 = endpoint.format === "v2" ? payloads.v2 : undefined;
+  if (endpoint.transport === "multipart") {
+    // O Response gera o corpo multipart e o Content-Type com o boundary correspondente
+    const encoded = new Response(v2 ? await toFormDataV2(v2) : await toFormData(payloads.legacy));
+    return {
+      body: new Uint8Array(await encoded.arrayBuffer()),
+      contentType: encoded.headers.get("Content-Type") ?? "multipart/form-data",
+    };
+  }
+  return {
+    body: new TextEncoder().encode(JSON.stringify(v2 ?? payloads.legacy)),
+    contentType: "application/json",
+  };
+};
+
+// Cabeçalhos e corpo exatamente como serão enviados ao endpoint
+export const buildWebhookRequest = async (
+  endpoint: EncodableEndpoint,
+  payloads: SubmissionPayloads,
+  submissionId?: string
+) => {
+  const { body, contentType } = await encodeBody(endpoint, payloads);
+  const headers: Record<string, string> = { "Content-Type": contentType };
+  if (submissionId) headers[IDEMPOTENCY_HEADER] = submissionId;
+  if (endpoint.secret) {
+    // Novo timestamp a cada tentativa: reenvios não são confundidos com replays
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    headers[SIGNATURE_TIMESTAMP_HEADER] = timestamp;
+    headers[SIGNATURE_HEADER] = await signBody(endpoint.secret, timestamp, body);
+  }
+  return { headers, body };
+};
+
+export type DryRunRequest = {
+  endpoint: WebhookEndpoint;
+  headers: Record<string, string>;
+  bytes: number; // tamanho do corpo
+};
+
+// Simulação: monta (e assina) as requisições de todos os endpoints sem chamar nenhum deles
+export const dryRunWebhooks = async (
+  endpoints: WebhookEndpoint[],
+  payloads: SubmissionPayloads,
+  submissionId: string
+): Promise<DryRunRequest[]> =>
+  Promise.all(
+    endpoints.map(async (endpoint) => {
+      const { headers, body } = await buildWebhookRequest(endpoint, payloads, submissionId);
+      return { endpoint, headers, bytes: body.length };
+    })
+  );
+
+/**
+ * Posta o payload no endpoint. Se a resposta trouxer a confirmação em JSON ela prevalece sobre o
+ * status HTTP (um "rejected" com HTTP 422 não é erro de rede); sem ela, HTTP fora de 2xx é erro.
+ */
+export const postToWebhook = async (
+  endpoint: Pick<WebhookEndpoint, "url"> & EncodableEndpoint,
+  payloads: SubmissionPayloads,
+  { submissionId, timeoutMs = REQUEST_TIMEOUT_MS }: { submissionId?: string; timeoutMs?: number } = {}
+): Promise<WebhookResponse> => {
+  const request: RequestInit = await buildWebhookRequest(endpoint, payloads, submissionId);
+
+  const controller = new AbortController();
+  const timeout = window.setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetch(endpoint.url, { method: "POST", ...request, signal: controller.signal });
+    const ack = await readAck(res);
+    if (!ack && !res.ok) throw new Error(`HTTP ${res.status}`);
+    return { httpStatus: res.status, ack };
+  } finally {
+    window.clearTimeout(timeout);
+  }
+};
+
+/**
+ * Dispara um payload de teste (marcado com "Teste de Conexão": "SIM", ou "test": true no v2,
+ * sem postos nem fotos) para conferir se a URL responde antes de salvá-la
+ */
+export const testWebhook = async (
+  endpoint: Pick<WebhookEndpoint, "url"> & EncodableEndpoint
+): Promise<WebhookTestResult> => {
+  const started = performance.now();
+  const elapsed = () => Math.round(performance.now() - started);
+  const now = new Date();
+  try {
+    const res = await postToWebhook(
+      endpoint,
+      {
+        legacy: {
+          "Teste de Conexão": "SIM",
+          "Data e Hora do Envio": format(now, "dd/MM/yyyy (HH:mm)"),
+          "Origem": "Configurações do Registro de Preços",
+        },
+        v2: {
+          schemaVersion: PAYLOAD_SCHEMA_VERSION,
+          test: true,
+          submissionId: `teste-${now.getTime()}`,
+          deviceId: getDeviceId(),
+          createdAt: now.toISOString(),
+          period: { id: "teste", label: "Teste de Conexão", late: false },
+          stations: [],
+        },
+      },
+      { timeoutMs: TEST_TIMEOUT_MS }
+    );
+    return { ok: true, status: res.httpStatus, ack: res.ack, elapsedMs: elapsed() };
+  } catch (e) {
+    return { ok: false, error: describeWebhookError(e), elapsedMs: elapsed() };
+  }
+};
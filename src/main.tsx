@@ -1,5 +1,8 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
+import { startOutbox } from './lib/outbox'
 import './index.css'
 
+startOutbox();
+
 createRoot(document.getElementById("root")!).render(<App />);
@@ -0,0 +1,94 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { HistoryStatusBadge } from "@/components/HistoryStatusBadge";
+import { PeriodIcon } from "@/components/PeriodIcon";
+import { HistoryEntry, listHistory } from "@/lib/history";
+import { periodLabel, readAppState } from "@/lib/localStorage";
+import { ArrowLeft, ChevronRight, History as HistoryIcon } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+const History = () => {
+  const [entries, setEntries] = React.useState<HistoryEntry[] | undefined>(undefined);
+  const state = readAppState();
+
+  React.useEffect(() => {
+    let active = true;
+    const load = async () => {
+      const list = await listHistory();
+      if (active) setEntries(list);
+    };
+    load();
+    window.addEventListener("history-updated", load);
+    return () => {
+      active = false;
+      window.removeEventListener("history-updated", load);
+    };
+  }, []);
+
+  // Agrupa por dia, mantendo a ordem (mais recente primeiro)
+  const byDay = React.useMemo(() => {
+    const groups: Array<{ day: string; items: HistoryEntry[] }> = [];
+    (entries || []).forEach((e) => {
+      const last = groups[groups.length - 1];
+      if (last && last.day === e.day) last.items.push(e);
+      else groups.push({ day: e.day, items: [e] });
+    });
+    return groups;
+  }, [entries]);
+
+  return (
+    <main className="min-h-screen bg-brand-gradient">
+      <header className="bg-background/90 backdrop-blur supports-[backdrop-filter]:bg-background/70 border-b shadow-sm">
+        <div className="container mx-auto px-4 py-5 flex items-center gap-3">
+          <Button asChild variant="ghost" size="icon" aria-label="Voltar">
+            <Link to="/">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <h1 className="text-2xl md:text-3xl font-bold flex items-center gap-2">
+            <HistoryIcon className="h-6 w-6 text-primary" aria-hidden="true" />
+            Histórico de Envios
+          </h1>
+        </div>
+      </header>
+
+      <section className="container mx-auto px-4 py-8 space-y-8">
+        {entries && entries.length === 0 && (
+          <p className="text-center text-muted-foreground">Nenhum envio registrado neste aparelho.</p>
+        )}
+        {byDay.map(({ day, items }) => (
+          <div key={day} className="space-y-3">
+            <h2 className="text-lg font-semibold">
+              {format(parseISO(day), "PPP", { locale: ptBR })}
+            </h2>
+            {items.map((e) => (
+              <Link key={e.id} to={`/historico/${e.id}`} className="block">
+                <Card className="shadow-sm hover:bg-accent/40 transition-colors">
+                  <CardContent className="p-4 flex items-center gap-4">
+                    <PeriodIcon period={state.config.periods.find((p) => p.id === e.period)} tinted className="h-5 w-5" />
+                    <div className="flex-1">
+                      <p className="font-medium">
+                        {periodLabel(state, e.period)} • {format(parseISO(e.createdAt), "HH:mm")}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {e.stations.length} posto{e.stations.length > 1 ? "s" : ""}
+                        {e.sentAt && ` • entregue às ${format(parseISO(e.sentAt), "HH:mm")}`}
+                      </p>
+                    </div>
+                    <HistoryStatusBadge status={e.status} />
+                    <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        ))}
+      </section>
+    </main>
+  );
+};
+
+export default History;
@@ -0,0 +1,164 @@
+import React from "react";
+import { Link, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { HistoryStatusBadge } from "@/components/HistoryStatusBadge";
+import { isOwnStationId, periodLabel, readAppState } from "@/lib/localStorage";
+import { getHistoryEntry, getThumbnail, HistoryEntry, HistoryStation } from "@/lib/history";
+import { ArrowLeft, Building2, Fuel, ImageOff } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+
+const Thumbnail: React.FC<{ thumbKey?: string }> = ({ thumbKey }) => {
+  const [url, setUrl] = React.useState<string | undefined>(undefined);
+
+  React.useEffect(() => {
+    let objectUrl: string | undefined;
+    let active = true;
+    (async () => {
+      if (!thumbKey) return;
+      const blob = await getThumbnail(thumbKey);
+      if (blob && active) {
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      }
+    })();
+    return () => {
+      active = false;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [thumbKey]);
+
+  if (!url) {
+    return (
+      <div className="h-24 w-40 rounded-md border flex items-center justify-center text-muted-foreground">
+        <ImageOff className="h-5 w-5" aria-label="Sem foto" />
+      </div>
+    );
+  }
+  return <img src={url} alt="Foto da placa" className="h-24 w-40 object-cover rounded-md border" />;
+};
+
+// Entradas arquivadas antes das formas de pagamento configuráveis só tinham vista/prazo
+const LEGACY_PAYMENT_MODES = [
+  { id: "vista", label: "À Vista" },
+  { id: "prazo", label: "A Prazo" },
+];
+
+const StationCard: React.FC<{
+  station: HistoryStation;
+  fuels: HistoryEntry["fuels"];
+  paymentModes: NonNullable<HistoryEntry["paymentModes"]>;
+}> = ({ station, fuels, paymentModes }) => (
+  <Card className="shadow-sm">
+    <CardHeader className="pb-3">
+      <CardTitle className="text-lg text-primary flex items-center gap-2">
+        {isOwnStationId(station.id) ? (
+          <Building2 className="h-5 w-5" aria-hidden="true" />
+        ) : (
+          <Fuel className="h-5 w-5" aria-hidden="true" />
+        )}
+        {station.name}
+      </CardTitle>
+    </CardHeader>
+    <CardContent className="space-y-4">
+      <Thumbnail thumbKey={station.thumbnailKey} />
+      {station.noChange ? (
+        <p className="text-sm text-muted-foreground">Marcado: não houve alteração nos preços.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Combustível</TableHead>
+              {paymentModes.map((m) => (
+                <TableHead key={m.id} className="text-right">{m.label} (R$)</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {fuels.map(({ id, label }) => (
+              <TableRow key={id}>
+                <TableCell>{label}</TableCell>
+                {paymentModes.map((m) => (
+                  <TableCell key={m.id} className="text-right">{station.prices[m.id]?.[id] || "—"}</TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </CardContent>
+  </Card>
+);
+
+const HistoryDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const [entry, setEntry] = React.useState<HistoryEntry | null | undefined>(undefined);
+
+  React.useEffect(() => {
+    let active = true;
+    const load = async () => {
+      const found = id ? await getHistoryEntry(id) : undefined;
+      if (active) setEntry(found ?? null);
+    };
+    load();
+    window.addEventListener("history-updated", load);
+    return () => {
+      active = false;
+      window.removeEventListener("history-updated", load);
+    };
+  }, [id]);
+
+  return (
+    <main className="min-h-screen bg-brand-gradient">
+      <header className="bg-background/90 backdrop-blur supports-[backdrop-filter]:bg-background/70 border-b shadow-sm">
+        <div className="container mx-auto px-4 py-5 flex items-center gap-3">
+          <Button asChild variant="ghost" size="icon" aria-label="Voltar">
+            <Link to="/historico">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          {entry && (
+            <div className="flex-1">
+              <h1 className="text-xl md:text-2xl font-bold">
+                {periodLabel(readAppState(), entry.period)} • {format(parseISO(entry.day), "PPP", { locale: ptBR })}
+              </h1>
+              <p className="text-sm text-muted-foreground">
+                Registrado às {format(parseISO(entry.createdAt), "HH:mm")}
+                {entry.sentAt && ` • entregue às ${format(parseISO(entry.sentAt), "HH:mm")}`}
+              </p>
+            </div>
+          )}
+          {entry && <HistoryStatusBadge status={entry.status} />}
+        </div>
+      </header>
+
+      <section className="container mx-auto px-4 py-8 space-y-6">
+        {entry === null && <p className="text-center text-muted-foreground">Envio não encontrado.</p>}
+        {entry?.lastError && entry.status === "pending" && (
+          <p className="text-sm text-center text-destructive">
+            Última tentativa falhou ({entry.attempts}x): {entry.lastError}
+          </p>
+        )}
+        {entry?.status === "rejected" && (
+          <p className="text-sm text-center text-destructive">Recusado pelo servidor: {entry.lastError}</p>
+        )}
+        {entry?.ack?.message && entry.status === "sent" && (
+          <p className="text-sm text-center text-muted-foreground">Resposta do servidor: {entry.ack.message}</p>
+        )}
+        {entry && <p className="text-xs text-center text-muted-foreground break-all">ID do envio: {entry.id}</p>}
+        {entry?.stations.map((station) => (
+          <StationCard
+            key={station.id}
+            station={station}
+            fuels={entry.fuels}
+            paymentModes={entry.paymentModes ?? LEGACY_PAYMENT_MODES}
+          />
+        ))}
+      </section>
+    </main>
+  );
+};
+
+export default HistoryDetail;
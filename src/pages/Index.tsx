@@ -1,17 +1,63 @@
 import React from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { ConfigModal } from "@/components/ConfigModal";
+import { PeriodIcon } from "@/components/PeriodIcon";
 import { PriceForm } from "@/components/PriceForm";
-import { readAppState } from "@/lib/localStorage";
-import { CalendarDays, Sun, Sunset } from "lucide-react";
+import { SubmissionWindowBanner } from "@/components/SubmissionWindowBanner";
+import { useOutboxCount } from "@/hooks/useOutbox";
+import { useToast } from "@/hooks/use-toast";
+import { PeriodColor } from "@/config/periods";
+import { getEnabledPeriods, periodLabel, readAppState } from "@/lib/localStorage";
+import { cn } from "@/lib/utils";
+import type { WebhookAck } from "@/lib/webhook";
+import { CalendarDays, CloudUpload, History } from "lucide-react";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 
+// Cor da aba ativa de cada período
+const ACTIVE_TAB_COLORS: Record<PeriodColor, string> = {
+  primary: "data-[state=active]:bg-primary data-[state=active]:text-primary-foreground",
+  gold: "data-[state=active]:bg-brand-gold data-[state=active]:text-brand-gold-foreground",
+  night: "data-[state=active]:bg-slate-700 data-[state=active]:text-white",
+};
+
 const Index = () => {
   const [, force] = React.useReducer((x) => x + 1, 0);
-  const count = readAppState().config.concorrentesCount;
+  const [tab, setTab] = React.useState<string>();
+  const periods = getEnabledPeriods(readAppState());
+  // Se o período selecionado foi desabilitado, volta para o primeiro
+  const activePeriod = periods.some((p) => p.id === tab) ? tab : periods[0]?.id;
   const today = format(new Date(), "PPP", { locale: ptBR });
+  const pending = useOutboxCount();
+  const { toast } = useToast();
+
+  // Avisa quando um envio que estava na fila é entregue (ou recusado) em segundo plano
+  React.useEffect(() => {
+    const onDelivered = (e: Event) => {
+      const { period, ack } = (e as CustomEvent<{ period: string; ack?: WebhookAck }>).detail ?? {};
+      toast({
+        title: `✅ Envio pendente (${periodLabel(readAppState(), period)}) entregue com sucesso.`,
+        description: ack?.message,
+      });
+    };
+    const onRejected = (e: Event) => {
+      const { period, message } = (e as CustomEvent<{ period: string; message: string }>).detail ?? {};
+      toast({
+        title: `Envio pendente (${periodLabel(readAppState(), period)}) recusado pelo servidor`,
+        description: message,
+        variant: "destructive",
+      });
+    };
+    window.addEventListener("outbox-delivered", onDelivered);
+    window.addEventListener("outbox-rejected", onRejected);
+    return () => {
+      window.removeEventListener("outbox-delivered", onDelivered);
+      window.removeEventListener("outbox-rejected", onRejected);
+    };
+  }, [toast]);
 
   return (
     <main className="min-h-screen bg-brand-gradient">
@@ -31,8 +77,13 @@ const Index = () => {
           </div>
 
           {/* Ícone de configurações fixo no topo direito */}
-          <div className="fixed top-4 right-4 md:top-6 md:right-6 z-50">
-            <ConfigModal count={count} onChanged={force} />
+          <div className="fixed top-4 right-4 md:top-6 md:right-6 z-50 flex items-center gap-2">
+            <Button asChild variant="secondary" size="icon" aria-label="Histórico de envios" className="h-12 w-12 md:h-14 md:w-14">
+              <Link to="/historico">
+                <History className="h-7 w-7" />
+              </Link>
+            </Button>
+            <ConfigModal onChanged={force} />
           </div>
 
           {/* Título central em duas linhas, data e instrução */}
@@ -46,6 +97,14 @@ const Index = () => {
                 <span>Hoje: {today}</span>
               </Badge>
             </div>
+            {pending > 0 && (
+              <div className="mt-2 flex justify-center">
+                <Badge variant="outline" className="flex items-center gap-2 px-3 py-1 text-sm border-warning/40 text-warning">
+                  <CloudUpload className="size-4" aria-hidden="true" />
+                  <span>{pending} envio{pending > 1 ? "s" : ""} pendente{pending > 1 ? "s" : ""}</span>
+                </Badge>
+              </div>
+            )}
             <p className="mt-2 text-center text-muted-foreground text-sm md:text-base">
               Selecione o período e preencha as informações abaixo.
             </p>
@@ -54,29 +113,28 @@ const Index = () => {
       </header>
 
       <section className="container mx-auto pb-12">
-        <Tabs defaultValue="manha" className="w-full mt-8 md:mt-10">
+        <Tabs value={activePeriod} onValueChange={setTab} className="w-full mt-8 md:mt-10">
           <TabsList className="mx-auto inline-flex items-center rounded-full border bg-background/90 supports-[backdrop-filter]:bg-background/70 backdrop-blur p-1.5 shadow-sm gap-1">
-            <TabsTrigger
-              value="manha"
-              className="rounded-full px-7 py-2.5 text-sm font-medium text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground data-[state=active]:bg-primary data-[state=active]:text-primary-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background"
-            >
-              <Sun className="size-4" aria-hidden="true" />
-              <span>Manhã</span>
-            </TabsTrigger>
-            <TabsTrigger
-              value="tarde"
-              className="rounded-full px-7 py-2.5 text-sm font-medium text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground data-[state=active]:bg-brand-gold data-[state=active]:text-brand-gold-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background"
-            >
-              <Sunset className="size-4" aria-hidden="true" />
-              <span>Tarde</span>
-            </TabsTrigger>
+            {periods.map((p) => (
+              <TabsTrigger
+                key={p.id}
+                value={p.id}
+                className={cn(
+                  "rounded-full px-7 py-2.5 text-sm font-medium text-muted-foreground transition-colors hover:bg-accent hover:text-accent-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background",
+                  ACTIVE_TAB_COLORS[p.color]
+                )}
+              >
+                <PeriodIcon period={p} className="size-4" />
+                <span>{p.label}</span>
+              </TabsTrigger>
+            ))}
           </TabsList>
-          <TabsContent value="manha" className="mt-6">
-            <PriceForm period="manha" />
-          </TabsContent>
-          <TabsContent value="tarde" className="mt-6">
-            <PriceForm period="tarde" />
-          </TabsContent>
+          {periods.map((p) => (
+            <TabsContent key={p.id} value={p.id} className="mt-6">
+              <SubmissionWindowBanner period={p.id} />
+              <PriceForm period={p.id} />
+            </TabsContent>
+          ))}
         </Tabs>
       </section>
     </main>
@@ -1,8 +1,28 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Modelo de idioma do OCR servido em /tesseract/eng.traineddata.gz: o tesseract.js só carrega
+// idiomas pelo nome, a partir de um diretório (langPath)
+const tesseractLanguageData = (): Plugin => {
+  const source = path.resolve(__dirname, "node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz");
+  const fileName = "tesseract/eng.traineddata.gz";
+  return {
+    name: "tesseract-language-data",
+    configureServer(server) {
+      server.middlewares.use(`/${fileName}`, (_req, res) => {
+        res.setHeader("Content-Type", "application/octet-stream");
+        fs.createReadStream(source).pipe(res);
+      });
+    },
+    generateBundle() {
+      this.emitFile({ type: "asset", fileName, source: fs.readFileSync(source) });
+    },
+  };
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -11,6 +31,7 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    tesseractLanguageData(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),